@@ -0,0 +1,40 @@
+// run with deno bench -A bench/
+import { intern, Interpreter } from '../elysp.ts';
+
+// a program with a lot of definitions, so lookups have plenty to search
+const elysp = new Interpreter();
+const defs: string[] = [];
+for (let i = 0; i < 500; i++) {
+  defs.push(`(define var-${String.fromCharCode(97 + i % 26)}-${i} ${i})`);
+}
+elysp.evalString(defs.join('\n'), 'bench');
+elysp.evalString(`
+(defn sum-to (n acc)
+  (if (= n 0)
+    acc
+    (sum-to (- n 1) (+ acc n))))
+
+(defn nested (a)
+  (fn (b)
+    (fn (c)
+      (+ a (+ b c)))))
+
+(defn call-nested (n)
+  (if (= n 0)
+    0
+    (+ (((nested n) n) n) (call-nested (- n 1)))))
+`, 'bench');
+
+Deno.bench('intern 1000 symbols', () => {
+  for (let i = 0; i < 1000; i++) {
+    intern(`sym-${i}`);
+  }
+});
+
+Deno.bench('global lookups with 500 definitions', () => {
+  elysp.evalString('(sum-to 2000 0)');
+});
+
+Deno.bench('params of enclosing fns', () => {
+  elysp.evalString('(call-nested 500)');
+});
@@ -0,0 +1,51 @@
+// run with deno bench -A bench/
+import { Interpreter } from '../elysp.ts';
+
+const elysp = new Interpreter();
+elysp.evalString(`
+(defn fib (n)
+  (if (= n 0)
+    0
+    (if (= n 1)
+      1
+      (+ (fib (- n 1)) (fib (- n 2))))))
+
+(defmacro unless (cond then else)
+  \`(if ,cond ,else ,then))
+
+(defn fib-unless (n)
+  (unless (= n 0)
+    (unless (= n 1)
+      (+ (fib-unless (- n 1)) (fib-unless (- n 2)))
+      1)
+    0))
+
+(defn range (n acc)
+  (if (= n 0)
+    acc
+    (range (- n 1) (cons n acc))))
+
+(defmacro push (x list)
+  \`(cons ,x ,list))
+
+(defn range-push (n acc)
+  (if (= n 0)
+    acc
+    (range-push (- n 1) (push n acc))))
+`, 'bench');
+
+Deno.bench('fib 18', () => {
+  elysp.evalString('(fib 18)');
+});
+
+Deno.bench('fib 18 through a macro', () => {
+  elysp.evalString('(fib-unless 18)');
+});
+
+Deno.bench('build a list of 5000', () => {
+  elysp.evalString('(range 5000 nil)');
+});
+
+Deno.bench('build a list of 5000 through a macro', () => {
+  elysp.evalString('(range-push 5000 nil)');
+});
@@ -0,0 +1,12 @@
+// the standard prelude, loaded into every environment before other code
+// runs, see createBaseEnv. it's a string rather than a file read at run
+// time so elysp.ts works when it's imported from a URL
+export const core = `(defmacro assert (cond)
+  \`(if ,cond nil (error (string "assert failed! " ',cond))))
+
+(defn cadr (list) (car (cdr list)))
+(defn cddr (list) (cdr (cdr list)))
+(defn caar (list) (car (car list)))
+
+(defn last (list) (nth list (- (length list) 1)))
+`;
@@ -1,6 +1,7 @@
+import { core } from './core.ts';
 import { puts, readLine } from './utils.ts';
 
-enum ObjType {
+export enum ObjType {
   Pair = 'pair',
   Symbol = 'symbol',
   Nil = 'nil',
@@ -10,291 +11,853 @@ enum ObjType {
   Fn = 'fn',
   String = 'string',
   Macro = 'macro',
+  Error = 'error',
+  Map = 'map',
+  BigInt = 'bigint',
+  Ratio = 'ratio',
+  Keyword = 'keyword',
+  Char = 'char',
+  Vector = 'vector',
+  Box = 'box',
 }
 
-type ObjPair = {
+// where an object was read from, set by the Reader
+// symbols are interned so they can't carry one, errors involving
+// a symbol point at the enclosing form instead
+export type SourceLoc = {
+  file: string;
+  source: string;
+  line: number;
+  col: number;
+  start: number;
+  end: number;
+}
+
+export type ObjPair = {
   type: ObjType.Pair;
   car: Obj;
   cdr: Obj;
+  loc?: SourceLoc;
 }
 
-type ObjSymbol = {
+export type ObjSymbol = {
   type: ObjType.Symbol;
   name: string;
 }
 
-type ObjString = {
+// :name, which evaluates to itself. interned like symbols, see keyword
+export type ObjKeyword = {
+  type: ObjType.Keyword;
+  name: string;
+}
+
+export type ObjString = {
   type: ObjType.String;
   value: string;
+  loc?: SourceLoc;
+}
+
+// a single unicode character, read as #\a
+export type ObjChar = {
+  type: ObjType.Char;
+  value: string;
 }
 
-type ObjEnv = {
+// vars is printed as an alist, see envAlist
+export type ObjEnv = {
   type: ObjType.Env;
-  vars: Obj;
+  vars: Map<ObjSymbol, Obj>;
   up: Obj;
+  // for a fn's frame the params bound in it, and whether anything has
+  // been defined in it since, see lookupParam
+  params?: Obj;
+  defined?: boolean;
 }
 
-type ObjNum = {
+export type ObjNum = {
   type: ObjType.Num;
   value: number;
+  loc?: SourceLoc;
+}
+
+export type ObjBigInt = {
+  type: ObjType.BigInt;
+  value: bigint;
+  loc?: SourceLoc;
+}
+
+// an exact fraction, in lowest terms with den > 1, see makeRatio
+export type ObjRatio = {
+  type: ObjType.Ratio;
+  num: bigint;
+  den: bigint;
+  loc?: SourceLoc;
+}
+
+// natives can return a TailCall to have evaluate carry on with expr
+// instead of evaluating it themselves, see run
+export class TailCall {
+  env: ObjEnv;
+  expr: Obj;
+  // expr already compiled, and the frame of the fn being called if this
+  // is a call, for calls made by compiled code
+  code?: Code;
+  frame?: Frame;
+
+  constructor(env: ObjEnv, expr: Obj, code?: Code, frame?: Frame) {
+    this.env = env;
+    this.expr = expr;
+    this.code = code;
+    this.frame = frame;
+  }
 }
 
-type ElyspFn = (env: ObjEnv, args: Obj) => Obj;
-type ObjNativeFn = {
+export type ElyspFn = (env: ObjEnv, args: Obj) => Obj | TailCall;
+export type ObjNativeFn = {
   type: ObjType.NativeFn;
   fn: ElyspFn;
+  name: string;
 }
 
-type ObjFn = {
+export type ObjFn = {
   type: ObjType.Fn | ObjType.Macro;
   params: Obj;
   body: Obj;
   env: ObjEnv;
+  // set when the fn is bound by defn, define or defmacro
+  name?: string;
+  // for macros defined with defsyntax, see hygienicExpand
+  hygienic?: boolean;
+  // the compiled body, see compile
+  code?: Code;
+}
+
+// an error caught by try
+export type ObjError = {
+  type: ObjType.Error;
+  message: string;
+  data: Obj;
+  loc?: SourceLoc;
+}
+
+// a hash map, entries are keyed by mapKey(key) and hold the key and value
+export type ObjMap = {
+  type: ObjType.Map;
+  entries: Map<string, [Obj, Obj]>;
+  loc?: SourceLoc;
+}
+
+// read as [a b], evaluating one evaluates each of its items
+export type ObjVector = {
+  type: ObjType.Vector;
+  items: Obj[];
+  loc?: SourceLoc;
 }
 
-type ObjNil = { type: ObjType.Nil };
+// a mutable reference, see box and set-box!
+export type ObjBox = {
+  type: ObjType.Box;
+  value: Obj;
+}
+
+export type ObjNil = { type: ObjType.Nil };
 
-type Obj = ObjPair | ObjSymbol | ObjNil | ObjEnv | ObjNum | ObjNativeFn | ObjFn | ObjString;
+export type Obj = ObjPair | ObjSymbol | ObjKeyword | ObjNil | ObjEnv | ObjNum | ObjBigInt | ObjRatio | ObjNativeFn | ObjFn | ObjString | ObjChar | ObjError | ObjMap | ObjVector | ObjBox;
 
-const makeNil = (): ObjNil => ({ type: ObjType.Nil });
-const makeSymbol = (name: string): ObjSymbol => ({ type: ObjType.Symbol, name });
-const makePair = (car: Obj, cdr: Obj): ObjPair => ({ type: ObjType.Pair, car, cdr });
-const makeEnv = (vars: Obj, up: Obj): ObjEnv => ({ type: ObjType.Env, vars, up });
-const makeNum = (value: number): ObjNum => ({ type: ObjType.Num, value });
-const makeNativeFn = (fn: ElyspFn): ObjNativeFn => ({ type: ObjType.NativeFn, fn });
+export const makeNil = (): ObjNil => ({ type: ObjType.Nil });
+export const makeSymbol = (name: string): ObjSymbol => ({ type: ObjType.Symbol, name });
+export const makePair = (car: Obj, cdr: Obj): ObjPair => ({ type: ObjType.Pair, car, cdr });
+const makeEnv = (up: Obj): ObjEnv => ({ type: ObjType.Env, vars: new Map(), up });
+export const makeNum = (value: number): ObjNum => ({ type: ObjType.Num, value });
+export const makeBigInt = (value: bigint): ObjBigInt => ({ type: ObjType.BigInt, value });
+export const makeNativeFn = (fn: ElyspFn, name = fn.name): ObjNativeFn => ({ type: ObjType.NativeFn, fn, name });
 const makeFn = (env: ObjEnv, params: Obj, body: Obj, type: ObjType.Fn | ObjType.Macro): ObjFn => ({ type, env, params, body });
-const makeString = (value: string): ObjString => ({ type: ObjType.String, value });
+export const makeString = (value: string): ObjString => ({ type: ObjType.String, value });
+export const makeChar = (value: string): ObjChar => ({ type: ObjType.Char, value });
+export const makeError = (message: string, data: Obj, loc?: SourceLoc): ObjError => ({ type: ObjType.Error, message, data, loc });
+export const makeMap = (entries = new Map<string, [Obj, Obj]>()): ObjMap => ({ type: ObjType.Map, entries });
+export const makeVector = (items: Obj[] = []): ObjVector => ({ type: ObjType.Vector, items });
+export const makeBox = (value: Obj): ObjBox => ({ type: ObjType.Box, value });
 
 const unreachable = (_: never): never => { throw new Error(); }
 
-const cons = makePair;
-let symbols: Obj = makeNil();
+// an entry in the elysp call stack, loc is where the call was made from
+export type Frame = {
+  name: string;
+  kind: 'fn' | 'macro' | 'native';
+  loc?: SourceLoc;
+}
+
+const callStack: Frame[] = [];
+
+export class ElyspError extends Error {
+  loc?: SourceLoc;
+  // the call stack at the point the error was thrown
+  trace?: Frame[];
+  // the payload passed to the error primitive
+  data: Obj;
+
+  constructor(message: string, loc?: SourceLoc, data: Obj = nil) {
+    super(message);
+    this.name = 'ElyspError';
+    this.loc = loc;
+    this.data = data;
+  }
+}
+
+// wraps anything thrown during evaluation in an ElyspError, and
+// attaches loc to it if it doesn't already know where it came from
+function withLoc(e: unknown, loc?: SourceLoc): ElyspError {
+  const err = e instanceof ElyspError
+    ? e
+    : new ElyspError(e instanceof Error ? e.message : String(e));
+  if (!err.loc && loc) {
+    err.loc = loc;
+  }
+  return err;
+}
+
+// snapshots the call stack onto the error, this has to happen before
+// any frames are popped on the way out
+function withTrace(e: unknown): ElyspError {
+  const err = withLoc(e);
+  if (!err.trace) {
+    err.trace = callStack.slice();
+  }
+  return err;
+}
+
+// calls fn with frame pushed onto the call stack
+function inFrame<T>(frame: Frame, fn: () => T): T {
+  callStack.push(frame);
+  try {
+    return fn();
+  } catch (e) {
+    throw withTrace(e);
+  } finally {
+    callStack.pop();
+  }
+}
 
-const nil = makeNil();
-const trueSym = intern('t');
+export const cons = makePair;
+const symbols = new Map<string, ObjSymbol>();
+
+export const nil = makeNil();
+export const trueSym = intern('t');
+
+// markers in parameter lists, see pushEnv
+const optionalMarker = intern('&optional');
+const restMarker = intern('&rest');
+const keyMarker = intern('&key');
 
 function acons(x: Obj, y: Obj, a: Obj): Obj {
   return cons(cons(x, y), a);
 }
 
-function intern(name: string): ObjSymbol {
-  let obj = symbols;
-  while (obj.type === ObjType.Pair) {
-    if (obj.car.type === ObjType.Symbol && obj.car.name === name) {
-      return obj.car;
-    }
-    obj = obj.cdr;
+export function intern(name: string): ObjSymbol {
+  let sym = symbols.get(name);
+  if (!sym) {
+    sym = makeSymbol(name);
+    symbols.set(name, sym);
   }
-
-  const sym = makeSymbol(name);
-  symbols = cons(sym, symbols);
   return sym;
 }
 
+const keywords = new Map<string, ObjKeyword>();
+
+// the keyword :name
+export function keyword(name: string): ObjKeyword {
+  let kw = keywords.get(name);
+  if (!kw) {
+    kw = { type: ObjType.Keyword, name };
+    keywords.set(name, kw);
+  }
+  return kw;
+}
+
 function addVariable(env: ObjEnv, sym: ObjSymbol, val: Obj) {
-  env.vars = acons(sym, val, env.vars);
+  env.vars.set(sym, val);
+  env.defined = true;
 }
 
-function setVariable(env: ObjEnv, sym: ObjSymbol, val: Obj) {
+// sets the nearest binding of sym, false if there isn't one
+function updateVariable(env: ObjEnv, sym: ObjSymbol, val: Obj): boolean {
   let cenv: Obj = env;
   while (cenv.type === ObjType.Env) {
-    let obj = cenv.vars;
-    while (obj.type === ObjType.Pair) {
-      const bind = obj.car;
-      if (bind.type === ObjType.Pair && bind.car === sym) {
-        bind.cdr = val;
-        return;
-      }
-      obj = obj.cdr;
+    if (cenv.vars.has(sym)) {
+      cenv.vars.set(sym, val);
+      return true;
     }
     cenv = cenv.up;
   }
-  // not found, add it
-  addVariable(env, sym, val);
+  return false;
 }
 
-function pushEnv(env: ObjEnv, vars: Obj, values: Obj): ObjEnv {
-  if (listLen(vars) !== listLen(values)) {
-    puts('vars: ');
-    reprln(vars);
-    puts('values: ');
-    reprln(values);
-    throw new Error('env: mismatched number of vars and values');
-  }
-  let varObj = vars;
-  let valueObj = values;
-  let newVars: Obj = nil;
-  while (varObj.type === ObjType.Pair && valueObj.type === ObjType.Pair) {
-    newVars = acons(varObj.car, valueObj.car, newVars);
-    varObj = varObj.cdr;
-    valueObj = valueObj.cdr;
+function setVariable(env: ObjEnv, sym: ObjSymbol, val: Obj) {
+  if (!updateVariable(env, sym, val)) {
+    // not found, add it
+    addVariable(env, sym, val);
   }
-
-  return makeEnv(newVars, env);
 }
 
-const cyan = (txt: string) => `\x1b[96m${txt}\x1b[0m`;
-const yellow = (txt: string) => `\x1b[93m${txt}\x1b[0m`;
+// pushEnv binds params to values in a new env on top of env. params can be
+//   (a b)                     exactly two values
+//   (a . rest) (a &rest rest) rest is a list of any values after a
+//   (a &optional (b 1) c)     b defaults to 1 and c to nil
+//   (a &key (b 1) c)          b and c are passed by name, like (f 1 :c 2)
+// defaults are evaluated in the new env, so can refer to earlier params
+function pushEnv(env: ObjEnv, params: Obj, values: Obj): ObjEnv {
+  const newEnv = makeEnv(env);
+  // the marker the current param came after, null for required params
+  let mode: ObjSymbol | null = null;
+  let param = params;
+  // the values not bound to required or optional params yet
+  let value = values;
+  let hasRest = false;
+  const keys: string[] = [];
 
-// repr pretty prints the value (with colours etc)
-function repr(inputObj: Obj) {
-  let obj = inputObj;
-  switch (obj.type) {
-    // treat an env like a pair, ignore the up ptr
-    case ObjType.Env:
-      obj = obj.vars;
-      // intentional fallthrough
-    case ObjType.Pair: {
-      puts('(');
-      let left = 6; // show 6 max
-      while (obj.type === ObjType.Pair) {
-        if (left === 0) {
-          puts('...');
-          break;
-        }
+  while (param.type === ObjType.Pair) {
+    const spec = param.car;
+    param = param.cdr;
 
-        repr(obj.car);
-        if (obj.cdr.type === ObjType.Nil) {
-          break;
-        } else if (obj.cdr.type !== ObjType.Pair) {
-          puts(' . ');
-          repr(obj.cdr);
-          break;
-        }
-        puts(' ');
-        obj = obj.cdr;
-        left--;
-      }
-      puts(')');
-      return;
+    if (spec === optionalMarker || spec === keyMarker) {
+      mode = spec;
+      continue;
     }
-    case ObjType.Symbol: {
-      puts(cyan(obj.name));
-      return;
+    if (spec === restMarker) {
+      if (param.type !== ObjType.Pair || param.car.type !== ObjType.Symbol) {
+        throw new ElyspError('&rest must be followed by a symbol');
+      }
+      newEnv.vars.set(param.car, value);
+      hasRest = true;
+      param = param.cdr;
+      continue;
     }
-    case ObjType.Nil: {
-      puts('nil');
-      return;
+
+    const name = (spec.type === ObjType.Pair ? spec.car : spec) as ObjSymbol;
+    const defaultExpr = spec.type === ObjType.Pair && spec.cdr.type === ObjType.Pair ? spec.cdr.car : nil;
+    if (mode === keyMarker) {
+      keys.push(name.name);
+      newEnv.vars.set(name, findKeyword(value, keys[keys.length - 1]) ?? evaluate(newEnv, defaultExpr));
+    } else if (value.type === ObjType.Pair) {
+      newEnv.vars.set(name, value.car);
+      value = value.cdr;
+    } else if (mode === optionalMarker) {
+      newEnv.vars.set(name, evaluate(newEnv, defaultExpr));
+    } else {
+      throw new ElyspError(`too few arguments, expected ${fmt(params)} but got ${fmt(values)}`);
     }
-    case ObjType.Num: {
-      puts(yellow(obj.value.toString()));
-      return;
+  }
+
+  if (param.type === ObjType.Symbol) {
+    // (a . rest)
+    newEnv.vars.set(param, value);
+    hasRest = true;
+  }
+  if (mode === keyMarker && !hasRest) {
+    checkKeywords(value, keys);
+  } else if (mode !== keyMarker && !hasRest && value !== nil) {
+    throw new ElyspError(`too many arguments, expected ${fmt(params)} but got ${fmt(values)}`);
+  }
+
+  newEnv.params = params;
+  return newEnv;
+}
+
+// the value passed for keyword in a list of keyword arguments
+function findKeyword(args: Obj, name: string): Obj | null {
+  let obj = args;
+  while (obj.type === ObjType.Pair && obj.cdr.type === ObjType.Pair) {
+    if (obj.car === keyword(name)) {
+      return obj.cdr.car;
     }
-    case ObjType.NativeFn: {
-      puts(`<native function ${obj.fn.name}>`);
-      return;
+    obj = obj.cdr.cdr;
+  }
+  return null;
+}
+
+// throws unless args is pairs of one of keys and a value
+function checkKeywords(args: Obj, keys: string[]) {
+  let obj = args;
+  while (obj.type === ObjType.Pair) {
+    if (obj.car.type !== ObjType.Keyword || !keys.includes(obj.car.name)) {
+      throw new ElyspError(`unknown keyword argument ${fmt(obj.car)}, expected one of ${keys.map((key) => `:${key}`).join(' ')}`);
     }
-    case ObjType.Fn: {
-      puts(`<function>`);
-      return;
+    if (obj.cdr.type !== ObjType.Pair) {
+      throw new ElyspError(`missing value for keyword argument ${fmt(obj.car)}`);
     }
-    case ObjType.Macro: {
-      puts(`<macro>`);
-      return;
+    obj = obj.cdr.cdr;
+  }
+}
+
+// throws if params isn't a valid parameter list, see pushEnv
+function checkParams(params: Obj) {
+  let mode: ObjSymbol | null = null;
+  let obj = params;
+  while (obj.type === ObjType.Pair) {
+    const spec = obj.car;
+    if (spec === optionalMarker || spec === keyMarker || spec === restMarker) {
+      mode = spec;
+    } else if (spec.type === ObjType.Pair && (mode === optionalMarker || mode === keyMarker)) {
+      // (name default)
+      if (spec.car.type !== ObjType.Symbol || listLen(spec) > 2) {
+        throw new ElyspError(`malformed parameter ${fmt(spec)}`);
+      }
+    } else if (spec.type !== ObjType.Symbol) {
+      throw new ElyspError('parameter must be a symbol');
     }
-    case ObjType.String: {
-      puts(cyan(`"${obj.value}"`));
-      return;
+    obj = obj.cdr;
+  }
+  if (obj !== nil && obj.type !== ObjType.Symbol) {
+    throw new ElyspError('parameter must be a symbol');
+  }
+}
+
+const cyan = (txt: string) => `\x1b[96m${txt}\x1b[0m`;
+const yellow = (txt: string) => `\x1b[93m${txt}\x1b[0m`;
+const red = (txt: string) => `\x1b[91m${txt}\x1b[0m`;
+
+// formatError renders an error with its location and the offending source
+// underlined, e.g.
+//
+// error: unknown symbol: foo
+//  --> tests.elysp:3:1
+//   |
+// 3 | (print foo)
+//   | ^^^^^^^^^^^
+export function formatError(err: ElyspError): string {
+  let output = `${red('error')}: ${err.message}\n`;
+  const loc = err.loc;
+  if (!loc) {
+    return output + formatTrace(err.trace ?? []);
+  }
+
+  const lineStart = loc.start - (loc.col - 1);
+  let lineEnd = loc.source.indexOf('\n', lineStart);
+  if (lineEnd === -1) {
+    lineEnd = loc.source.length;
+  }
+  const text = loc.source.substring(lineStart, lineEnd);
+  // spans covering multiple lines are underlined to the end of the first
+  const width = Math.max(1, Math.min(loc.end, lineEnd) - loc.start);
+  const gutter = ' '.repeat(String(loc.line).length);
+
+  output += `${gutter}--> ${loc.file}:${loc.line}:${loc.col}\n`;
+  output += `${gutter} |\n`;
+  output += `${loc.line} | ${text}\n`;
+  output += `${gutter} | ${' '.repeat(loc.col - 1)}${red('^'.repeat(width))}\n`;
+  return output + formatTrace(err.trace ?? []);
+}
+
+// formatTrace renders the call stack most recent call first, e.g.
+//
+// backtrace:
+//   error (native) at tests.elysp:2:3
+//   check at tests.elysp:5:1
+function formatTrace(trace: Frame[]): string {
+  if (trace.length === 0) {
+    return '';
+  }
+  let output = 'backtrace:\n';
+  for (let i = trace.length - 1; i >= 0; i--) {
+    const frame = trace[i];
+    output += `  ${frame.name}`;
+    if (frame.kind !== 'fn') {
+      output += ` (${frame.kind})`;
     }
-    default: {
-      unreachable(obj);
+    if (frame.loc) {
+      output += ` at ${frame.loc.file}:${frame.loc.line}:${frame.loc.col}`;
     }
+    output += '\n';
   }
+  return output;
 }
 
-function reprln(inputObj: Obj) {
-  repr(inputObj);
-  puts('\n');
+function reportError(e: unknown) {
+  if (e instanceof ElyspError) {
+    puts(formatError(e));
+  } else {
+    console.log(e);
+  }
 }
 
-// print prints a value like the primitive print function will
-// no colours, formatting etc
-function print(inputObj: Obj) {
-  puts(fmt(inputObj));
+// the character following a \ in a string, and what it stands for
+const escapes: Record<string, string> = { '"': '"', '\\': '\\', 'n': '\n', 't': '\t', 'r': '\r', '0': '\0' };
+const escaped = Object.fromEntries(Object.entries(escapes).map(([c, char]) => [char, c]));
+
+// s quoted, with escapes the reader understands, see Reader.readString
+function escapeString(s: string): string {
+  let output = '"';
+  for (const c of s) {
+    if (Object.hasOwn(escaped, c)) {
+      output += `\\${escaped[c]}`;
+    } else if (c < ' ' || c === '\x7f') {
+      output += `\\u{${c.charCodeAt(0).toString(16)}}`;
+    } else {
+      output += c;
+    }
+  }
+  return output + '"';
 }
 
-function fmt(inputObj: Obj): string {
-  let output = '';
-  let obj = inputObj;
-  switch (obj.type) {
-    // treat an env like a pair, ignore the up ptr
-    case ObjType.Env:
-      obj = obj.vars;
-      // intentional fallthrough
-    case ObjType.Pair: {
-      output += '(';
-      let left = 6; // show 6 max
-      while (obj.type === ObjType.Pair) {
-        if (left === 0) {
-          output += '...';
-          break;
-        }
+// the names of characters that can't be written after #\ as they are
+const charNames: Record<string, string> = { space: ' ', newline: '\n', tab: '\t', return: '\r', nul: '\0' };
+const charNamesByChar = Object.fromEntries(Object.entries(charNames).map(([name, c]) => [c, name]));
 
-        output += fmt(obj.car);
-        if (obj.cdr.type === ObjType.Nil) {
-          break;
-        } else if (obj.cdr.type !== ObjType.Pair) {
-          output += ' . ';
-          output += fmt(obj.cdr);
-          break;
+// c as the reader reads it, see Reader.readChar
+function formatChar(c: string): string {
+  if (Object.hasOwn(charNamesByChar, c)) {
+    return `#\\${charNamesByChar[c]}`;
+  }
+  if (c < ' ' || c === '\x7f') {
+    return `#\\x${c.charCodeAt(0).toString(16)}`;
+  }
+  return `#\\${c}`;
+}
+
+// PRINTER
+// how fmt and repr print a value, by default everything is printed in
+// full on one line
+export type PrintOptions = {
+  // the most items of a list or vector, or entries of a map, to print
+  // before ...
+  length?: number;
+  // how many lists, vectors and maps deep to print, deeper ones are #
+  depth?: number;
+  // lay out forms that don't fit in this many columns over several
+  // lines, see pprint
+  width?: number;
+  // colour symbols, strings and numbers for the terminal
+  color?: boolean;
+};
+
+// a value ready to be laid out, either its text or the nodes between
+// its brackets
+type PrintNode = string | {
+  open: string;
+  items: PrintNode[];
+  close: string;
+  // a list starting with a symbol, laid out like a call
+  call?: boolean;
+  // a map, laid out a key and value to a line
+  pairs?: boolean;
+};
+
+// turns a value into PrintNodes, labelling anything that contains itself
+// #n= where it's first printed and #n# after that, the way
+// Reader.readLabel reads them back
+class Printer {
+  options: PrintOptions;
+  cycles: Set<Obj>;
+  labels = new Map<Obj, number>();
+  // envs print as an alist of their bindings, made once per env
+  alists = new Map<ObjEnv, Obj>();
+
+  constructor(root: Obj, options: PrintOptions) {
+    this.options = options;
+    this.cycles = this.findCycles(root);
+  }
+
+  alist(env: ObjEnv): Obj {
+    let alist = this.alists.get(env);
+    if (!alist) {
+      alist = envAlist(env);
+      this.alists.set(env, alist);
+    }
+    return alist;
+  }
+
+  children(obj: Obj): Obj[] {
+    switch (obj.type) {
+      case ObjType.Pair:
+        return [obj.car, obj.cdr];
+      case ObjType.Env:
+        return [this.alist(obj)];
+      case ObjType.Vector:
+        return obj.items;
+      case ObjType.Map:
+        return [...obj.entries.values()].flat();
+      case ObjType.Box:
+        return [obj.value];
+      default:
+        return [];
+    }
+  }
+
+  // the objects reachable from inside themselves. walks with its own
+  // stack rather than recursing, as long lists are deep down their cdrs
+  findCycles(root: Obj): Set<Obj> {
+    const cycles = new Set<Obj>();
+    const onPath = new Set<Obj>();
+    const done = new Set<Obj>();
+    const stack: { obj: Obj, children: Obj[], next: number }[] = [];
+    const visit = (obj: Obj) => {
+      if (onPath.has(obj)) {
+        cycles.add(obj);
+      } else if (!done.has(obj)) {
+        const children = this.children(obj);
+        if (children.length > 0) {
+          onPath.add(obj);
+          stack.push({ obj, children, next: 0 });
         }
-        output += ' ';
-        obj = obj.cdr;
-        left--;
       }
-      output += ')';
-      return output;
-    }
-    case ObjType.Symbol: {
-      output += obj.name;
-      return output;
+    };
+    visit(root);
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      if (top.next < top.children.length) {
+        visit(top.children[top.next++]);
+      } else {
+        stack.pop();
+        onPath.delete(top.obj);
+        done.add(top.obj);
+      }
     }
-    case ObjType.Nil: {
-      output += 'nil';
-      return output;
+    return cycles;
+  }
+
+  node(obj: Obj, depth: number): PrintNode {
+    if (!this.cycles.has(obj)) {
+      return this.unlabelled(obj, depth);
     }
-    case ObjType.Num: {
-      output += obj.value.toString();
-      return output;
+    const label = this.labels.get(obj);
+    if (label !== undefined) {
+      return `#${label}#`;
     }
-    case ObjType.NativeFn: {
-      output += `<native function ${obj.fn.name}>`;
-      return output;
+    const prefix = `#${this.labels.size}=`;
+    this.labels.set(obj, this.labels.size);
+    const node = this.unlabelled(obj, depth);
+    return typeof node === 'string' ? prefix + node : { ...node, open: prefix + node.open };
+  }
+
+  // items, or ... in place of those past the length limit
+  limit(items: PrintNode[], count: number): PrintNode[] {
+    const { length } = this.options;
+    return length !== undefined && count > length ? [...items, '...'] : items;
+  }
+
+  unlabelled(inputObj: Obj, depth: number): PrintNode {
+    const { length = Infinity, color = false } = this.options;
+    const tooDeep = this.options.depth !== undefined && depth >= this.options.depth;
+    const paint = (colour: (txt: string) => string, txt: string) => color ? colour(txt) : txt;
+    let obj = inputObj;
+    switch (obj.type) {
+      // treat an env like a pair, ignore the up ptr
+      case ObjType.Env:
+        obj = this.alist(obj);
+        if (obj === nil) {
+          return '()';
+        }
+        // intentional fallthrough
+      case ObjType.Pair: {
+        if (tooDeep) {
+          return '#';
+        }
+        const items: PrintNode[] = [];
+        let count = 0;
+        let rest: Obj = obj;
+        while (rest.type === ObjType.Pair && count < length) {
+          items.push(this.node(rest.car, depth + 1));
+          count++;
+          rest = rest.cdr;
+          // the rest of a list that contains itself is printed dotted
+          if (rest !== nil && (rest.type !== ObjType.Pair || this.cycles.has(rest))) {
+            items.push('.', this.node(rest, depth + 1));
+            rest = nil;
+          }
+        }
+        return { open: '(', items: this.limit(items, rest === nil ? count : Infinity), close: ')', call: (obj as ObjPair).car.type === ObjType.Symbol };
+      }
+      case ObjType.Vector: {
+        if (tooDeep) {
+          return '#';
+        }
+        const items = obj.items.slice(0, length).map((item) => this.node(item, depth + 1));
+        return { open: '[', items: this.limit(items, obj.items.length), close: ']' };
+      }
+      case ObjType.Map: {
+        if (tooDeep) {
+          return '#';
+        }
+        const entries = [...obj.entries.values()].slice(0, length);
+        const items = entries.flatMap(([key, value]) => [this.node(key, depth + 1), this.node(value, depth + 1)]);
+        return { open: '{', items: this.limit(items, obj.entries.size), close: '}', pairs: true };
+      }
+      case ObjType.Box: {
+        return { open: '<box ', items: [this.node(obj.value, depth + 1)], close: '>' };
+      }
+      case ObjType.Symbol:
+        return paint(cyan, obj.name);
+      case ObjType.Keyword:
+        return paint(yellow, `:${obj.name}`);
+      case ObjType.Nil:
+        return 'nil';
+      case ObjType.Num:
+      case ObjType.BigInt:
+      case ObjType.Ratio:
+        return paint(yellow, formatNumber(obj));
+      case ObjType.NativeFn:
+        return `<native function ${obj.name}>`;
+      case ObjType.Fn:
+        return obj.name ? `<function ${obj.name}>` : `<function>`;
+      case ObjType.Macro:
+        return obj.name ? `<macro ${obj.name}>` : `<macro>`;
+      case ObjType.String:
+        return paint(cyan, escapeString(obj.value));
+      case ObjType.Char:
+        return paint(cyan, formatChar(obj.value));
+      case ObjType.Error:
+        return `<error ${paint(cyan, escapeString(obj.message))}>`;
+      default:
+        return unreachable(obj);
     }
-    case ObjType.Fn: {
-      output += `<function>`;
-      return output;
+  }
+}
+
+// the colour codes cyan and friends add, which take up no width
+export const colourCodes = new RegExp('\x1b\\[\\d+m', 'g');
+const uncoloured = (text: string) => text.replace(colourCodes, '');
+
+// the width of text in the terminal, without its colour codes
+const textWidth = (text: string) => codePoints(uncoloured(text)).length;
+
+function flatten(node: PrintNode): string {
+  return typeof node === 'string' ? node : node.open + node.items.map(flatten).join(' ') + node.close;
+}
+
+// how many arguments of a call to keep on its first line when it's laid
+// out over several, one if it isn't here
+const headerArgs: Record<string, number> = { defn: 2, defmacro: 2, defsyntax: 2 };
+
+// node as text starting at column, broken over lines if it doesn't fit
+// in width. a call keeps its first argument on the first line if it fits
+// and indents the rest by two, lists of atoms fill each line, and other
+// lists put each item under the first
+function layout(node: PrintNode, column: number, width?: number): string {
+  const flat = flatten(node);
+  if (typeof node === 'string' || width === undefined || column + textWidth(flat) <= width || node.items.length === 0) {
+    return flat;
+  }
+  // a dotted tail goes on the same line as its dot, and a map value with
+  // its key
+  const groups: PrintNode[][] = [];
+  for (let i = 0; i < node.items.length; i++) {
+    if (node.items[i] === '.' || (node.pairs && i % 2 === 0)) {
+      groups.push(node.items.slice(i, i + 2));
+      i++;
+    } else {
+      groups.push([node.items[i]]);
     }
-    case ObjType.Macro: {
-      output += `<macro>`;
-      return output;
+  }
+  const line = (group: PrintNode[], at: number) => {
+    const first = layout(group[0], at, width);
+    if (group.length === 1) {
+      return first;
     }
-    case ObjType.String: {
-      output += obj.value;
-      return output;
+    return `${first} ${layout(group[1], at + textWidth(first) + 1, width)}`;
+  };
+
+  const open = column + textWidth(node.open);
+  let text = node.open + line(groups[0], open);
+  let at = open + textWidth(text) - textWidth(node.open);
+  let rest = groups.slice(1);
+  let indent = open;
+  if (node.call && groups.length > 1) {
+    indent = column + 2;
+    const head = uncoloured(flatten(node.items[0]));
+    for (let kept = 0; kept < (headerArgs[head] ?? 1) && rest.length > 1 && rest[0].length === 1; kept++) {
+      const arg = flatten(rest[0][0]);
+      if (at + 1 + textWidth(arg) > width) {
+        break;
+      }
+      text += ' ' + arg;
+      at += 1 + textWidth(arg);
+      rest = rest.slice(1);
     }
-    default: {
-      unreachable(obj);
+  } else if (node.items.every((item) => typeof item === 'string')) {
+    for (const group of rest) {
+      const item = group.map(flatten).join(' ');
+      if (at + 1 + textWidth(item) < width) {
+        text += ' ' + item;
+        at += 1 + textWidth(item);
+      } else {
+        text += '\n' + ' '.repeat(indent) + item;
+        at = indent + textWidth(item);
+      }
     }
+    return text + node.close;
   }
+  for (const group of rest) {
+    text += '\n' + ' '.repeat(indent) + line(group, indent);
+  }
+  return text + node.close;
+}
 
-  return output;
+// obj as text, cycles and all. readable by Reader for anything that
+// isn't a function, env, error or box, as long as nothing was left out
+// because of options.length or options.depth
+export function fmt(obj: Obj, options: PrintOptions = {}): string {
+  return layout(new Printer(obj, options).node(obj, 0), 0, options.width);
+}
+
+// prints obj coloured for the terminal
+function repr(obj: Obj, options: PrintOptions = {}) {
+  puts(fmt(obj, { ...options, color: true }));
+}
+
+function reprln(obj: Obj, options: PrintOptions = {}) {
+  repr(obj, options);
+  puts('\n');
+}
+
+// display is fmt, except a string or character is its contents rather
+// than how it would be written in code
+export function display(obj: Obj, options: PrintOptions = {}): string {
+  return obj.type === ObjType.String || obj.type === ObjType.Char ? obj.value : fmt(obj, options);
+}
+
+// the limits set by *print-length* and *print-depth* in env, which the
+// printing primitives and the REPL follow. nil means no limit
+function printOptions(env: ObjEnv): PrintOptions {
+  const limit = (name: string) => {
+    const value = find(env, intern(name));
+    return value !== null && isNumber(value) ? toFloat(value) : undefined;
+  };
+  return { length: limit('*print-length*'), depth: limit('*print-depth*') };
 }
 
 function find(env: ObjEnv, sym: ObjSymbol): Obj | null {
   let cenv: Obj = env;
   while (cenv.type === ObjType.Env) {
-    let obj = cenv.vars;
-    while (obj.type === ObjType.Pair) {
-      const bind = obj.car;
-      if (bind.type === ObjType.Pair && bind.car === sym) {
-        return bind.cdr;
-      }
-      obj = obj.cdr;
+    const value = cenv.vars.get(sym);
+    if (value !== undefined) {
+      return value;
     }
     cenv = cenv.up;
   }
-  return null;
+  return findQualified(env, sym);
+}
+
+// env's bindings as an alist, most recently defined first
+function envAlist(env: ObjEnv): Obj {
+  let alist: Obj = nil;
+  for (const [sym, value] of env.vars) {
+    alist = acons(sym, value, alist);
+  }
+  return alist;
+}
+
+// ns/name looks up name in the module imported with (import path :as ns)
+function findQualified(env: ObjEnv, sym: ObjSymbol): Obj | null {
+  const slash = sym.name.lastIndexOf('/');
+  if (slash <= 0 || slash === sym.name.length - 1) {
+    return null;
+  }
+  const ns = find(env, intern(sym.name.substring(0, slash)));
+  if (ns === null || ns.type !== ObjType.Env) {
+    return null;
+  }
+  return find(ns, intern(sym.name.substring(slash + 1)));
 }
 
 function macroExpand(env: ObjEnv, obj: Obj): Obj {
@@ -311,83 +874,654 @@ function macroExpand(env: ObjEnv, obj: Obj): Obj {
   }
 
   const args = obj.cdr;
-  const newEnv = pushEnv(env, bind.params, args);
-  let result: Obj = nil;
-  forEach(bind.body, (obj: Obj) => {
-    result = evaluate(newEnv, obj);
+  const frame: Frame = { name: bind.name ?? obj.car.name, kind: 'macro', loc: obj.loc };
+  const expanded = inFrame(frame, () => {
+    if (bind.hygienic) {
+      return hygienicExpand(env, bind, args);
+    }
+    return evaluateBody(pushEnv(env, bind.params, args), bind.body);
   });
-  return result;
-}
 
-function evaluate(env: ObjEnv, val: Obj): Obj {
-  switch (val.type) {
-    case ObjType.Nil:
-    case ObjType.Env:
-    case ObjType.String:
-    case ObjType.Fn:
-    case ObjType.Macro:
-    case ObjType.NativeFn:
-    case ObjType.Num: {
-      return val;
-    }
-    case ObjType.Symbol: {
-      const result = find(env, val);
-      if (result === null) {
-        throw new Error(`unknown symbol: ${val.name}`);
-      }
-      return result;
-    }
-    case ObjType.Pair: {
-      const expanded = macroExpand(env, val);
-      if (expanded !== val) {
-        return evaluate(env, expanded);
-      }
-      const fn = evaluate(env, val.car);
-      const args = val.cdr;
-      return apply(env, fn, args);
-    }
-    default:
-      unreachable(val);
+  if (find(env, intern('macro-trace')) === trueSym) {
+    puts(`expand ${frame.name}: `);
+    reprln(obj, printOptions(env));
+    puts(`${' '.repeat(frame.name.length + 6)}=> `);
+    reprln(expanded, printOptions(env));
   }
-  return nil;
+  return expanded;
 }
 
-function evaluateList(env: ObjEnv, list: Obj): Obj {
-  let head: ObjPair | null = null;
-  let tail: ObjPair | null = null;
-  let obj: Obj = list;
+// the natives with arguments that aren't all code, and how many of
+// their leading arguments macroExpandAll should leave alone
+const nonCodeArgs = new Map<ElyspFn, number>([
+  [primQuote, Infinity],
+  [primFn, 1],
+  [primDefn, 2],
+  [primDefmacro, 2],
+  [primDefsyntax, 2],
+  [primDefine, 1],
+]);
 
-  while (obj.type === ObjType.Pair) {
-    const result = evaluate(env, obj.car);
-    if (head === null) {
-      head = tail = cons(result, nil);
-    } else if (tail !== null) {
-      tail.cdr = cons(result, nil);
-      tail = tail.cdr;
+// macroExpandAll expands every macro call in form, including in its
+// sub-forms. quoted data, parameter lists and the names bound by lets
+// and loops are left alone, and calls to names shadowed by them aren't
+// treated as macros
+function macroExpandAll(env: ObjEnv, form: Obj, shadowed: Set<ObjSymbol> = new Set()): Obj {
+  let obj = form;
+  while (obj.type === ObjType.Pair && !(obj.car.type === ObjType.Symbol && shadowed.has(obj.car))) {
+    const expanded = macroExpand(env, obj);
+    if (expanded === obj) {
+      break;
     }
-    obj = obj.cdr;
+    obj = expanded;
+  }
+  if (obj.type === ObjType.Vector || obj.type === ObjType.Map) {
+    return mapLiteral(obj, (item) => macroExpandAll(env, item, shadowed));
+  }
+  if (obj.type !== ObjType.Pair) {
+    return obj;
   }
 
-  if (head === null) {
-    return nil;
+  const head = obj.car.type === ObjType.Symbol && !shadowed.has(obj.car) ? find(env, obj.car) : null;
+  if (head !== null && head.type === ObjType.NativeFn && head.fn === primQuasiquote && obj.cdr.type === ObjType.Pair) {
+    return cons(obj.car, cons(expandQuasiquote(env, obj.cdr.car, 1, shadowed), nil));
+  }
+  if (head !== null && head.type === ObjType.NativeFn && bindingForms.has(head.fn) && isList(obj.cdr)) {
+    return expandBindingForm(env, obj, head.fn, shadowed);
   }
 
-  return head;
+  let skip = head !== null && head.type === ObjType.NativeFn ? nonCodeArgs.get(head.fn) ?? 0 : 0;
+  let inner = shadowed;
+  if (head !== null && head.type === ObjType.NativeFn && (head.fn === primFn || skip === 2)) {
+    // the params come just before the body
+    const params = getArg(env, obj.cdr, skip - 1);
+    inner = new Set([...shadowed, ...paramNames(params)]);
+  }
+
+  // a head that's a form, like ((fn (x) x) 1), is code too
+  const items: Obj[] = [obj.car.type === ObjType.Pair ? macroExpandAll(env, obj.car, shadowed) : obj.car];
+  let rest: Obj = obj.cdr;
+  while (rest.type === ObjType.Pair) {
+    items.push(skip > 0 ? rest.car : macroExpandAll(env, rest.car, inner));
+    skip--;
+    rest = rest.cdr;
+  }
+  let result: Obj = rest;
+  for (let i = items.length - 1; i >= 0; i--) {
+    result = cons(items[i], result);
+  }
+  return result;
 }
 
-function apply(env: ObjEnv, fn: Obj, args: Obj): Obj {
-  switch (fn.type) {
-    case ObjType.NativeFn: {
-      return fn.fn(env, args);
-    }
-    case ObjType.Fn: {
-      const eargs = evaluateList(env, args);
-      const newEnv = pushEnv(fn.env, fn.params, eargs);
-      let result: Obj = nil;
-      forEach(fn.body, (obj: Obj) => {
-        result = evaluate(newEnv, obj);
-      });
-      return result;
+const bindingForms = new Set<ElyspFn>([primLet, primLetStar, primLetrec, primDotimes, primDolist]);
+
+// expands a let, let*, letrec, named let, dotimes or dolist, leaving the
+// names it binds alone. they shadow macros in its body, and in whichever
+// inits are evaluated with them bound
+function expandBindingForm(env: ObjEnv, form: ObjPair, fn: ElyspFn, shadowed: Set<ObjSymbol>): Obj {
+  const within = (names: ObjSymbol[]) => new Set([...shadowed, ...names]);
+  const expandEach = (forms: Obj, scope: (i: number) => Set<ObjSymbol>) => {
+    const items: Obj[] = [];
+    forEach(forms, (item, i) => items.push(macroExpandAll(env, item, scope(i))));
+    return arrayToList(items);
+  };
+  // only the init of each (name init) is code
+  const expandBindings = (bindings: Obj, scope: (i: number) => Set<ObjSymbol>) => {
+    const items: Obj[] = [];
+    forEach(bindings, (binding, i) => {
+      if (binding.type === ObjType.Pair && binding.cdr.type === ObjType.Pair) {
+        items.push(cons(binding.car, cons(macroExpandAll(env, binding.cdr.car, scope(i)), binding.cdr.cdr)));
+      } else {
+        items.push(binding);
+      }
+    });
+    return arrayToList(items);
+  };
+
+  const args = form.cdr as ObjPair;
+  if (fn === primDotimes || fn === primDolist) {
+    // (dotimes (i count [result]) body...), only i is seen by result
+    const spec = args.car;
+    if (spec.type !== ObjType.Pair || spec.car.type !== ObjType.Symbol || !isList(spec)) {
+      return form;
+    }
+    const names = [spec.car];
+    const expandedSpec = cons(spec.car, expandEach(spec.cdr, (i) => i === 0 ? shadowed : within(names)));
+    return cons(form.car, cons(expandedSpec, expandEach(args.cdr, () => within(names))));
+  }
+  if (fn === primLet && args.car.type === ObjType.Symbol && args.cdr.type === ObjType.Pair) {
+    // (let name ((a 1)) body...)
+    const { names } = letBindings(args.cdr.car);
+    const bindings = expandBindings(args.cdr.car, () => shadowed);
+    return cons(form.car, cons(args.car, cons(bindings, expandEach(args.cdr.cdr, () => within([args.car as ObjSymbol, ...names])))));
+  }
+  const { names } = letBindings(args.car);
+  // let's inits see none of the names, let*'s the ones before and letrec's all of them
+  const scope = fn === primLetStar ? (i: number) => within(names.slice(0, i)) : fn === primLetrec ? () => within(names) : () => shadowed;
+  return cons(form.car, cons(expandBindings(args.car, scope), expandEach(args.cdr, () => within(names))));
+}
+
+// expands the unquoted parts of a quasiquote template, see quasiquote
+function expandQuasiquote(env: ObjEnv, template: Obj, depth: number, shadowed: Set<ObjSymbol>): Obj {
+  if (template.type === ObjType.Vector || template.type === ObjType.Map) {
+    return mapLiteral(template, (item) => expandQuasiquote(env, item, depth, shadowed));
+  }
+  if (template.type !== ObjType.Pair) {
+    return template;
+  }
+  if ((isForm(template, unquoteSym) || isForm(template, unquoteSplicingSym)) && depth === 1) {
+    return cons(template.car, cons(macroExpandAll(env, template.cdr.car, shadowed), nil));
+  }
+  let nextDepth = depth;
+  if (isForm(template, quasiquoteSym)) {
+    nextDepth++;
+  } else if (isForm(template, unquoteSym) || isForm(template, unquoteSplicingSym)) {
+    nextDepth--;
+  }
+  return cons(expandQuasiquote(env, template.car, nextDepth, shadowed), expandQuasiquote(env, template.cdr, depth, shadowed));
+}
+
+// hygienicExpand expands a defsyntax macro so that variables bound by
+// the macro's own code can't capture the caller's. the symbols in args
+// are swapped for uninterned copies during expansion, so afterwards the
+// symbols still interned must have come from the macro. those bound by
+// fn, let or a loop are renamed to gensyms, then the caller's symbols are
+// swapped back. the copies aren't equal to the originals, so a macro
+// comparing its arguments to symbols at expansion time should use defmacro
+function hygienicExpand(env: ObjEnv, macro: ObjFn, args: Obj): Obj {
+  const painted = new Map<ObjSymbol, ObjSymbol>();
+  const paint = (obj: Obj): Obj => {
+    if (obj.type === ObjType.Symbol) {
+      const copy = makeSymbol(obj.name);
+      painted.set(copy, obj);
+      return copy;
+    }
+    if (obj.type === ObjType.Pair) {
+      return { ...obj, car: paint(obj.car), cdr: paint(obj.cdr) };
+    }
+    if (obj.type === ObjType.Vector || obj.type === ObjType.Map) {
+      return mapLiteral(obj, paint);
+    }
+    return obj;
+  };
+  const unpaint = (obj: Obj): Obj => {
+    if (obj.type === ObjType.Symbol) {
+      return painted.get(obj) ?? obj;
+    }
+    if (obj.type === ObjType.Pair) {
+      return { ...obj, car: unpaint(obj.car), cdr: unpaint(obj.cdr) };
+    }
+    if (obj.type === ObjType.Vector || obj.type === ObjType.Map) {
+      return mapLiteral(obj, unpaint);
+    }
+    return obj;
+  };
+
+  const expansion = evaluateBody(pushEnv(env, macro.params, paint(args)), macro.body);
+  return unpaint(renameBindings(expansion, (sym) => !painted.has(sym)));
+}
+
+// renameBindings renames the params of each fn, and the names bound by
+// each let, dotimes and dolist, in form for which shouldRename is true to
+// gensyms, throughout the fn, let or loop
+function renameBindings(form: Obj, shouldRename: (sym: ObjSymbol) => boolean): Obj {
+  if (form.type === ObjType.Vector || form.type === ObjType.Map) {
+    return mapLiteral(form, (item) => renameBindings(item, shouldRename));
+  }
+  if (form.type !== ObjType.Pair || form.car === quoteSym) {
+    return form;
+  }
+
+  let result: Obj = form;
+  let bound: ObjSymbol[] = [];
+  if (form.car === fnSym && form.cdr.type === ObjType.Pair) {
+    bound = paramNames(form.cdr.car);
+  } else if (letSyms.includes(form.car as ObjSymbol) && form.cdr.type === ObjType.Pair && isList(form.cdr.car)) {
+    bound = letBindings(form.cdr.car).names;
+  } else if (form.car === letSyms[0] && form.cdr.type === ObjType.Pair && form.cdr.car.type === ObjType.Symbol && form.cdr.cdr.type === ObjType.Pair) {
+    // named let
+    bound = [form.cdr.car, ...letBindings(form.cdr.cdr.car).names];
+  } else if (loopSyms.includes(form.car as ObjSymbol) && form.cdr.type === ObjType.Pair && form.cdr.car.type === ObjType.Pair && form.cdr.car.car.type === ObjType.Symbol) {
+    // (dotimes (i count) body...)
+    bound = [form.cdr.car.car];
+  }
+  for (const name of bound) {
+    if (shouldRename(name)) {
+      result = renameSymbol(result, name, gensym(name.name));
+    }
+  }
+
+  const renamed = result as ObjPair;
+  return { ...renamed, car: renameBindings(renamed.car, shouldRename), cdr: renameBindings(renamed.cdr, shouldRename) };
+}
+
+// the symbols bound by a parameter list, see pushEnv
+function paramNames(params: Obj): ObjSymbol[] {
+  const names: ObjSymbol[] = [];
+  let obj = params;
+  while (obj.type === ObjType.Pair) {
+    const spec = obj.car.type === ObjType.Pair ? obj.car.car : obj.car;
+    if (spec.type === ObjType.Symbol && spec !== optionalMarker && spec !== restMarker && spec !== keyMarker) {
+      names.push(spec);
+    }
+    obj = obj.cdr;
+  }
+  if (obj.type === ObjType.Symbol) {
+    names.push(obj);
+  }
+  return names;
+}
+
+// replaces from with to everywhere in form outside of quoted data
+function renameSymbol(form: Obj, from: ObjSymbol, to: ObjSymbol): Obj {
+  if (form === from) {
+    return to;
+  }
+  if (form.type === ObjType.Vector || form.type === ObjType.Map) {
+    return mapLiteral(form, (item) => renameSymbol(item, from, to));
+  }
+  if (form.type !== ObjType.Pair || form.car === quoteSym) {
+    return form;
+  }
+  return { ...form, car: renameSymbol(form.car, from, to), cdr: renameSymbol(form.cdr, from, to) };
+}
+
+let gensymCounter = 0;
+
+// gensym makes a new uninterned symbol, which can't be equal to any
+// symbol in the program
+function gensym(prefix = 'g'): ObjSymbol {
+  return makeSymbol(`${prefix}${++gensymCounter}`);
+}
+
+// evaluate compiles val, see compile, then runs it
+export function evaluate(env: ObjEnv, val: Obj): Obj {
+  switch (val.type) {
+    case ObjType.Pair:
+    case ObjType.Vector:
+    case ObjType.Map:
+      return run(env, compile(env, val));
+    case ObjType.Symbol:
+      return lookup(env, val);
+    default:
+      return val;
+  }
+}
+
+function lookup(env: ObjEnv, sym: ObjSymbol): Obj {
+  const result = find(env, sym);
+  if (result === null) {
+    throw new ElyspError(`unknown symbol: ${sym.name}`);
+  }
+  return result;
+}
+
+// run calls code, then carries on with any TailCall it returns rather
+// than recursing, so calls in tail position (the last form of a fn body,
+// or a TailCall returned by a native like if) run in constant JS stack
+function run(inputEnv: ObjEnv, inputCode: Code): Obj {
+  let env = inputEnv;
+  let code = inputCode;
+  let loc: SourceLoc | undefined;
+  const depth = callStack.length;
+
+  try {
+    while (true) {
+      const result = code(env);
+      if (!(result instanceof TailCall)) {
+        return result;
+      }
+      if (result.frame) {
+        // a call in tail position replaces the frame it was made from
+        callStack.length = depth;
+        callStack.push(result.frame);
+        loc = result.frame.loc;
+      }
+      env = result.env;
+      code = result.code ?? compile(env, result.expr);
+    }
+  } catch (e) {
+    throw withTrace(withLoc(e, loc));
+  } finally {
+    callStack.length = depth;
+  }
+}
+
+// COMPILER
+// compile turns a form into a closure that evaluates it, expanding macros
+// and resolving special forms once up front instead of every time the form
+// is evaluated. fn bodies are compiled when the fn is created, any other
+// form the first time it's evaluated
+//
+// scope holds the params of the fns being compiled, which aren't bound in
+// env yet but still shadow any macros or special forms with the same name,
+// and are looked up by how many frames up they are, see lookupParam. names
+// defined at the top of a fn body shadow them the same way.
+// a macro defined after a form was compiled is expanded when it's called
+export type Code = (env: ObjEnv) => Obj | TailCall;
+type SpecialForm = (env: ObjEnv, form: ObjPair, scope: Scope) => Code;
+
+// the params of each fn being compiled, innermost first, along with
+// whatever its body defines
+type Scope = {
+  params: Obj;
+  names: ObjSymbol[];
+  up: Scope;
+} | null;
+
+const fnScope = (params: Obj, body: Obj, up: Scope): Scope => ({ params, names: [...paramNames(params), ...bodyDefines(body)], up });
+
+// the names defined by the forms of body, which end up in the same
+// frame as the params
+function bodyDefines(body: Obj): ObjSymbol[] {
+  const names: ObjSymbol[] = [];
+  forEach(body, (form) => {
+    if (form.type === ObjType.Pair && defineSyms.includes(form.car as ObjSymbol) && form.cdr.type === ObjType.Pair && form.cdr.car.type === ObjType.Symbol) {
+      names.push(form.cdr.car);
+    }
+  });
+  return names;
+}
+
+// the lexical address of sym if it's a param: how many frames up from
+// the innermost fn's it's bound, and the params of the fn binding it
+function findParam(scope: Scope, sym: ObjSymbol): { depth: number; params: Obj } | null {
+  let depth = 0;
+  for (let s = scope; s !== null; s = s.up) {
+    if (s.names.includes(sym)) {
+      return { depth, params: s.params };
+    }
+    depth++;
+  }
+  return null;
+}
+
+// looks up the param sym bound depth frames up from env, in the frame
+// for params. frames that have had something defined in them might
+// shadow it, and code compiled for one place can end up evaluated in
+// another, so anything unexpected falls back to lookup
+function lookupParam(env: ObjEnv, sym: ObjSymbol, depth: number, params: Obj): Obj {
+  let frame: Obj = env;
+  for (let i = 0; i < depth && frame.type === ObjType.Env && !frame.defined; i++) {
+    frame = frame.up;
+  }
+  const value = frame.type === ObjType.Env && frame.params === params ? frame.vars.get(sym) : undefined;
+  return value ?? lookup(env, sym);
+}
+
+const compiled = new WeakMap<Obj, Code>();
+const compiledBodies = new WeakMap<ObjPair, Code>();
+
+function compile(env: ObjEnv, form: Obj, scope: Scope = null): Code {
+  switch (form.type) {
+    case ObjType.Pair: {
+      let code = compiled.get(form);
+      if (!code) {
+        try {
+          code = located(compilePair(env, form, scope), form.loc);
+        } catch (e) {
+          throw withTrace(withLoc(e, form.loc));
+        }
+        compiled.set(form, code);
+      }
+      return code;
+    }
+    case ObjType.Symbol: {
+      const param = findParam(scope, form);
+      if (param === null) {
+        return (env) => lookup(env, form);
+      }
+      const { depth, params } = param;
+      return (env) => lookupParam(env, form, depth, params);
+    }
+    case ObjType.Vector:
+    case ObjType.Map: {
+      let code = compiled.get(form);
+      if (!code) {
+        code = located(compileLiteral(env, form, scope), form.loc);
+        compiled.set(form, code);
+      }
+      return code;
+    }
+    default:
+      return () => form;
+  }
+}
+
+// a vector or map literal evaluates to a new one holding the values of
+// its items, keys included
+function compileLiteral(env: ObjEnv, form: ObjVector | ObjMap, scope: Scope): Code {
+  if (form.type === ObjType.Vector) {
+    const items = form.items.map((item) => compileArg(env, item, scope));
+    return (env) => makeVector(items.map((item) => item(env)));
+  }
+  const entries = [...form.entries.values()].map(([key, value]) => [compileArg(env, key, scope), compileArg(env, value, scope)]);
+  return (env) => {
+    const map = makeMap();
+    for (const [key, value] of entries) {
+      mapSet(map, key(env), value(env));
+    }
+    return map;
+  };
+}
+
+// like compile, but for forms that aren't in tail position
+function compileArg(env: ObjEnv, form: Obj, scope: Scope): (env: ObjEnv) => Obj {
+  if (form.type !== ObjType.Pair) {
+    return compile(env, form, scope) as (env: ObjEnv) => Obj;
+  }
+  const code = compile(env, form, scope);
+  return (env) => run(env, code);
+}
+
+// compiles the forms of a fn body, the last one is in tail position
+function compileBody(env: ObjEnv, body: Obj, scope: Scope): Code {
+  if (body.type !== ObjType.Pair) {
+    return () => nil;
+  }
+  let code = compiledBodies.get(body);
+  if (!code) {
+    const forms: ((env: ObjEnv) => Obj)[] = [];
+    let obj = body;
+    while (obj.cdr.type === ObjType.Pair) {
+      forms.push(compileArg(env, obj.car, scope));
+      obj = obj.cdr;
+    }
+    const last = compile(env, obj.car, scope);
+    code = forms.length === 0 ? last : (env) => {
+      for (const form of forms) {
+        form(env);
+      }
+      return last(env);
+    };
+    compiledBodies.set(body, code);
+  }
+  return code;
+}
+
+// the compiled body of fn
+function fnCode(fn: ObjFn): Code {
+  if (!fn.code) {
+    fn.code = compileBody(fn.env, fn.body, fnScope(fn.params, fn.body, null));
+  }
+  return fn.code;
+}
+
+// errors thrown by code that don't know where they came from
+// are reported at loc
+function located(code: Code, loc?: SourceLoc): Code {
+  return (env) => {
+    try {
+      return code(env);
+    } catch (e) {
+      throw withLoc(e, loc);
+    }
+  };
+}
+
+function compilePair(env: ObjEnv, form: ObjPair, scope: Scope): Code {
+  const head = form.car.type === ObjType.Symbol && findParam(scope, form.car) === null ? find(env, form.car) : null;
+  if (head?.type === ObjType.Macro) {
+    const expanded = macroExpand(env, form);
+    // code built by a macro reports errors at the macro call
+    if (expanded.type === ObjType.Pair && !expanded.loc) {
+      expanded.loc = form.loc;
+    }
+    return compile(env, expanded, scope);
+  }
+  if (head?.type === ObjType.NativeFn) {
+    const special = specialForms.get(head.fn);
+    if (special) {
+      return special(env, form, scope);
+    }
+  }
+  return compileCall(env, form, scope, head);
+}
+
+function compileCall(env: ObjEnv, form: ObjPair, scope: Scope, head: Obj | null): Code {
+  const callee = compileArg(env, form.car, scope);
+  const args = form.cdr;
+  // natives take their arguments unevaluated, so only compile them
+  // up front for what looks like a call to a fn
+  let eargs = head?.type === ObjType.NativeFn ? null : compileArgs(env, args, scope);
+
+  return (env) => {
+    const fn = callee(env);
+    switch (fn.type) {
+      case ObjType.Fn: {
+        eargs ??= compileArgs(env, args, null);
+        const values = eargs(env);
+        const frame: Frame = { name: fn.name ?? '<anonymous>', kind: 'fn', loc: form.loc };
+        // so errors binding the params show up in the fn being called,
+        // if this throws, whatever's running this truncates the stack
+        callStack.push(frame);
+        const callEnv = pushEnv(fn.env, fn.params, values);
+        callStack.pop();
+        return new TailCall(callEnv, fn.body, fnCode(fn), frame);
+      }
+      case ObjType.NativeFn:
+        return callNative(env, fn, args, form.loc);
+      case ObjType.Macro: {
+        // defined after this form was compiled
+        const expanded = macroExpand(env, form);
+        if (expanded.type === ObjType.Pair && !expanded.loc) {
+          expanded.loc = form.loc;
+        }
+        return new TailCall(env, expanded);
+      }
+      default:
+        return apply(env, fn, args, form.loc);
+    }
+  };
+}
+
+// compiles a list of arguments into a closure that evaluates them all
+function compileArgs(env: ObjEnv, args: Obj, scope: Scope): (env: ObjEnv) => Obj {
+  const codes: ((env: ObjEnv) => Obj)[] = [];
+  forEach(args, (arg) => codes.push(compileArg(env, arg, scope)));
+  return (env) => {
+    const values = codes.map((code) => code(env));
+    let result: Obj = nil;
+    for (let i = values.length - 1; i >= 0; i--) {
+      result = cons(values[i], result);
+    }
+    return result;
+  };
+}
+
+// compiled versions of natives that don't evaluate their arguments
+// like a function would
+const specialForms = new Map<ElyspFn, SpecialForm>([
+  [primQuote, (env, form) => {
+    const datum = primQuote(env, form.cdr);
+    return () => datum;
+  }],
+  [primIf, (env, form, scope) => {
+    checkArity(form.cdr, 2, 3);
+    const cond = compileArg(env, getArg(env, form.cdr, 0), scope);
+    const ifExpr = compile(env, getArg(env, form.cdr, 1), scope);
+    const elseExpr = compile(env, getArg(env, form.cdr, 2), scope);
+    return (env) => isTruthy(cond(env)) ? ifExpr(env) : elseExpr(env);
+  }],
+  [primFn, (env, form, scope) => {
+    const args = form.cdr;
+    if (args.type === ObjType.Pair) {
+      // compiled now rather than when the fn is created
+      compileBody(env, args.cdr, fnScope(args.car, args.cdr, scope));
+    }
+    return (env) => primFn(env, args);
+  }],
+]);
+
+// reads and evaluates every form in source, returning the last result
+function evaluateSource(env: ObjEnv, source: string, file: string): Obj {
+  const reader = new Reader(source, file, env);
+  let result: Obj = nil;
+  while (!reader.atEof()) {
+    const next = reader.read();
+    if (next === null) {
+      break;
+    }
+    result = evaluate(env, next);
+  }
+  return result;
+}
+
+// evaluates each form in body, returning the result of the last one
+function evaluateBody(env: ObjEnv, body: Obj): Obj {
+  let result: Obj = nil;
+  forEach(body, (obj: Obj) => {
+    result = evaluate(env, obj);
+  });
+  return result;
+}
+
+export function evaluateList(env: ObjEnv, list: Obj): Obj {
+  let head: ObjPair | null = null;
+  let tail: ObjPair | null = null;
+  let obj: Obj = list;
+
+  while (obj.type === ObjType.Pair) {
+    const result = evaluate(env, obj.car);
+    if (head === null) {
+      head = tail = cons(result, nil);
+    } else if (tail !== null) {
+      tail.cdr = cons(result, nil);
+      tail = tail.cdr;
+    }
+    obj = obj.cdr;
+  }
+
+  if (head === null) {
+    return nil;
+  }
+
+  return head;
+}
+
+function callNative(env: ObjEnv, fn: ObjNativeFn, args: Obj, loc?: SourceLoc): Obj | TailCall {
+  return inFrame({ name: fn.name, kind: 'native', loc }, () => fn.fn(env, args));
+}
+
+// applyFn calls fn with already evaluated arguments
+export function applyFn(fn: ObjFn, eargs: Obj, loc?: SourceLoc): Obj {
+  return inFrame({ name: fn.name ?? '<anonymous>', kind: 'fn', loc }, () => {
+    return run(pushEnv(fn.env, fn.params, eargs), fnCode(fn));
+  });
+}
+
+// loc is where the call was made from, for the call stack
+export function apply(env: ObjEnv, fn: Obj, args: Obj, loc?: SourceLoc): Obj {
+  switch (fn.type) {
+    case ObjType.NativeFn: {
+      const result = callNative(env, fn, args, loc);
+      if (result instanceof TailCall) {
+        return run(result.env, () => result);
+      }
+      return result;
+    }
+    case ObjType.Fn: {
+      return applyFn(fn, evaluateList(env, args), loc);
     }
     case ObjType.Pair: {
       checkArity(args, 1);
@@ -403,11 +1537,16 @@ function apply(env: ObjEnv, fn: Obj, args: Obj): Obj {
       }
       return nil;
     }
+    case ObjType.Vector:
+    case ObjType.Map: {
+      checkArity(args, 1);
+      return collectionGet(fn, evalArg(env, args, 0), nil);
+    }
   }
-  throw new Error(`cannot apply ${repr(fn)}`);
+  throw new ElyspError(`cannot apply ${fmt(fn)}`);
 }
 
-function forEach(list: Obj, callback: (obj: Obj, index: number) => void) {
+export function forEach(list: Obj, callback: (obj: Obj, index: number) => void) {
   let obj: Obj = list;
   let index = 0;
   while (obj.type === ObjType.Pair) {
@@ -416,13 +1555,71 @@ function forEach(list: Obj, callback: (obj: Obj, index: number) => void) {
   }
 }
 
+type ReaderMark = { pos: number, line: number, col: number };
+
+// characters that end a symbol or number
+const delimiters = /[\s()[\]{}"'`,]/;
+
+// reads what follows #c, called with the reader just past c. start is
+// where the # was
+type DispatchMacro = (reader: Reader, c: string, start: ReaderMark) => Obj | null;
+
+// what #c reads for each built in c, see readerMacros for the rest
+const dispatchMacros = new Map<string, DispatchMacro>([
+  // #-datum is a syntactic comment, datum is read and thrown away
+  ['-', (reader) => {
+    reader.readNext();
+    return reader.readNext();
+  }],
+  ['\\', (reader, _, start) => reader.readChar(start)],
+  ['t', (reader, c, start) => reader.readConstant(c, start)],
+  ['f', (reader, c, start) => reader.readConstant(c, start)],
+  ...Array.from('0123456789', (digit): [string, DispatchMacro] => [digit, (reader, c, start) => reader.readLabel(c, start)]),
+]);
+
+// the #c syntax reader-macro has added for code read into each env. a
+// reader looks for c in its env and the ones below it, so the prelude's
+// apply everywhere but a module's or test file's stay in that file, and
+// separate interpreters never see each other's
+const readerMacros = new WeakMap<ObjEnv, Map<string, DispatchMacro>>();
+
+const constants: Record<string, Obj> = { t: trueSym, true: trueSym, f: nil, false: nil };
+
+// the closing bracket for each opening one
+const closers: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
 class Reader {
   source = '';
+  file = '';
   pos = 0;
+  line = 1;
+  col = 1;
+  // the data read so far with #n= labels, see readLabel
+  labels = new Map<string, Obj>();
+  // the env what's read is evaluated in, for its reader macros
+  env: ObjEnv | null;
 
-  constructor(source: string) {
+  constructor(source: string, file = '<input>', env: ObjEnv | null = null) {
     this.source = source;
+    this.file = file;
     this.pos = 0;
+    this.env = env;
+    if (env && !readerMacros.has(env)) {
+      readerMacros.set(env, new Map());
+    }
+  }
+
+  // the reader macro for #c from reader-macro, if there is one
+  findReaderMacro(c: string): DispatchMacro | undefined {
+    let env: Obj | null = this.env;
+    while (env?.type === ObjType.Env) {
+      const dispatch = readerMacros.get(env)?.get(c);
+      if (dispatch) {
+        return dispatch;
+      }
+      env = env.up;
+    }
+    return undefined;
   }
 
   peek(offset = 0) {
@@ -433,7 +1630,14 @@ class Reader {
   }
   advance(): string {
     if (this.pos < this.source.length) {
-      return this.source[this.pos++];
+      const c = this.source[this.pos++];
+      if (c === '\n') {
+        this.line++;
+        this.col = 1;
+      } else {
+        this.col++;
+      }
+      return c;
     }
     return this.source[this.pos];
   }
@@ -441,48 +1645,95 @@ class Reader {
     if (this.peek() === c) {
       return this.advance();
     }
-    throw new Error(`syntax error: expected ${c} but not ${this.peek()}`);
+    throw this.error(`syntax error: expected ${c} but got ${this.atEof() ? 'end of input' : this.peek()}`);
+  }
+
+  mark(): ReaderMark {
+    return { pos: this.pos, line: this.line, col: this.col };
+  }
+  // the location from mark up to the current position
+  span(from: ReaderMark): SourceLoc {
+    return {
+      file: this.file,
+      source: this.source,
+      line: from.line,
+      col: from.col,
+      start: from.pos,
+      end: this.pos,
+    };
+  }
+  error(msg: string, from: ReaderMark = this.mark()): ElyspError {
+    return new ElyspError(msg, { ...this.span(from), end: from.pos + 1 });
   }
 
   read(): Obj | null {
+    const start = this.mark();
+    this.labels.clear();
     try {
       return this.readNext();
     } catch (e) {
-      puts(`error at '${this.source.substring(this.pos, this.pos + 10)}...'\n`);
-      throw e;
+      throw withLoc(e, this.span(start));
     }
   }
 
   readNext(): Obj | null {
-    this.skipWhitespace();
     this.skipComments();
 
     if (this.atEof()) {
       return null;
     }
 
-    if (/[0-9]/.test(this.peek())) {
+    const start = this.mark();
+    const obj = this.readDatum();
+    if (obj !== null && (obj.type === ObjType.Pair || obj.type === ObjType.Vector || obj.type === ObjType.Map || obj.type === ObjType.String || isNumber(obj)) && !obj.loc) {
+      obj.loc = this.span(start);
+    }
+    return obj;
+  }
+
+  readDatum(): Obj | null {
+    if (/[0-9]/.test(this.peek()) || (/[-+.]/.test(this.peek()) && /[0-9]/.test(this.peek(1)))) {
       return this.readNumber();
     }
 
     switch (this.peek()) {
       case '(': {
+        const open = this.mark();
         this.advance();
-        const list = this.readList();
+        const list = this.readList(')', open);
         this.consume(')');
         return list;
       }
       case '[': {
+        const open = this.mark();
         this.advance();
-        const list = this.readList(']');
-        const result = cons(intern('list'), list);
+        const list = this.readList(']', open);
         this.consume(']');
-        return result;
+        return makeVector(listItems('vector', list));
+      }
+      case '{': {
+        const open = this.mark();
+        this.advance();
+        const list = this.readList('}', open);
+        this.consume('}');
+        const items = listItems('map', list);
+        if (items.length % 2 !== 0) {
+          throw this.error('map literal needs a value for every key', open);
+        }
+        const map = makeMap();
+        for (let i = 0; i < items.length; i += 2) {
+          mapSet(map, items[i], items[i + 1]);
+        }
+        return map;
       }
       case "'": {
         this.advance();
         return this.readQuote();
       }
+      case '`': {
+        this.advance();
+        return this.readQuasiquote();
+      }
       case ",": {
         this.advance();
         return this.readUnquote();
@@ -492,11 +1743,15 @@ class Reader {
         return this.readString();
       }
       case '#': {
-        // must be block comment, normal comments have already been skipped)
-        this.consume('#');
-        this.consume('-');
-        this.readNext(); // intentionally thrown away
-        return this.readNext();
+        // comments have already been skipped, see skipComments
+        const start = this.mark();
+        this.advance();
+        const c = this.atEof() ? '' : this.advance();
+        const dispatch = dispatchMacros.get(c) ?? this.findReaderMacro(c);
+        if (!dispatch) {
+          throw this.error(`unknown reader syntax #${c}`, start);
+        }
+        return dispatch(this, c, start);
       }
       default: {
         // assume symbol
@@ -505,75 +1760,229 @@ class Reader {
     }
   }
 
-  readNumber(): ObjNum {
+  // reads up to the next whitespace or character with a meaning of its own
+  readToken(): string {
     const start = this.pos;
-    while (!this.atEof() && /[0-9]/.test(this.peek())) {
+    while (!this.atEof() && !delimiters.test(this.peek())) {
       this.advance();
     }
-    return makeNum(parseInt(this.source.slice(start, this.pos), 10));
+    return this.source.substring(start, this.pos);
   }
 
-  readSymbol(): ObjSymbol {
-    const start = this.pos;
-    while (!this.atEof() && /[a-z-+=/*!?]/.test(this.peek())) {
-      this.advance();
+  // numbers can have a sign, a fraction and exponent (-1.5e3), be hex
+  // or binary (0xff, 0b101), BigInts (12n) or exact ratios (1/3)
+  readNumber(): ObjNumber {
+    const start = this.mark();
+    const text = this.readToken();
+    const negative = text.startsWith('-');
+    const digits = /^[-+]/.test(text) ? text.slice(1) : text;
+
+    let match;
+    if ((match = /^(\d+)\/(\d+)$/.exec(digits))) {
+      const num = BigInt(match[1]);
+      return makeRatio(negative ? -num : num, BigInt(match[2]));
+    }
+    if ((match = /^(0x[0-9a-f]+|0b[01]+|\d+)n$/i.exec(digits))) {
+      const value = BigInt(match[1]);
+      return makeBigInt(negative ? -value : value);
+    }
+    if (/^(0x[0-9a-f]+|0b[01]+)$/i.test(digits) || /^(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(digits)) {
+      const value = Number(digits);
+      return makeNum(negative ? -value : value);
     }
-    if (start === this.pos) {
-      throw new Error('could not read symbol');
+    throw this.error(`invalid number ${text}`, start);
+  }
+
+  // symbols are case sensitive and can have any characters that aren't
+  // whitespace or read as something else, like foo-2 or ->. ns/name looks
+  // up name in an imported module, see findQualified
+  readSymbol(): ObjSymbol | ObjKeyword | ObjNil {
+    const start = this.mark();
+    const name = this.readToken();
+    if (name === '') {
+      throw this.error(`could not read symbol starting with ${this.peek()}`);
+    }
+    if (name.startsWith(':')) {
+      if (name.length === 1) {
+        throw this.error('expected a keyword name after :', start);
+      }
+      return keyword(name.substring(1));
     }
-    return intern(this.source.substring(start, this.pos));
+    // so quoted data holds nil itself rather than the symbol
+    if (name === 'nil') {
+      return nil;
+    }
+    return intern(name);
   }
 
+  // strings can have escapes: \" \\ \n \t \r \0, \xff for a character
+  // code and \u00e9 or \u{1f600} for any unicode code point
   readString(): ObjString {
-    const start = this.pos;
+    let value = '';
     while (!this.atEof() && this.peek() !== '"') {
+      if (this.peek() !== '\\') {
+        value += this.advance();
+        continue;
+      }
+
+      const start = this.mark();
       this.advance();
+      const c = this.advance() ?? '';
+      if (Object.hasOwn(escapes, c)) {
+        value += escapes[c];
+        continue;
+      }
+
+      const rest = this.source.slice(this.pos);
+      const hex = c === 'x' ? /^[0-9a-fA-F]{2}/.exec(rest) : c === 'u' ? /^([0-9a-fA-F]{4}|\{[0-9a-fA-F]{1,6}\})/.exec(rest) : null;
+      const codePoint = hex ? parseInt(hex[0].replace(/[{}]/g, ''), 16) : NaN;
+      if (hex === null || codePoint > 0x10ffff) {
+        throw this.error(`invalid escape \\${c}${hex?.[0] ?? ''}`, start);
+      }
+      for (let i = 0; i < hex[0].length; i++) {
+        this.advance();
+      }
+      value += String.fromCodePoint(codePoint);
     }
     this.consume('"');
 
     // TO DO interning
-    return makeString(this.source.substring(start, this.pos - 1));
+    return makeString(value);
   }
   
-  // 'obj => (quote obj)
-  readQuote(): ObjPair {
-    const obj = this.readNext();
-    if (obj === null) {
-      throw new Error('expected stuff after quote');
+  // #\a is the character a, #\space, #\newline etc. name characters and
+  // #\x41 is the character with that hex code
+  readChar(start: ReaderMark): ObjChar {
+    if (this.atEof()) {
+      throw this.error('expected a character after #\\', start);
     }
-    return cons(intern('quote'), cons(obj, nil));
+    let c = String.fromCodePoint(this.source.codePointAt(this.pos)!);
+    for (let i = 0; i < c.length; i++) {
+      this.advance();
+    }
+    if (/[a-z]/i.test(c) && !this.atEof() && !delimiters.test(this.peek())) {
+      const name = c + this.readToken();
+      if (Object.hasOwn(charNames, name)) {
+        c = charNames[name];
+      } else if (/^x[0-9a-f]+$/i.test(name) && parseInt(name.substring(1), 16) <= 0x10ffff) {
+        c = String.fromCodePoint(parseInt(name.substring(1), 16));
+      } else {
+        throw this.error(`unknown character name ${name}`, start);
+      }
+    }
+    return makeChar(c);
+  }
+
+  // #t and #true read as t, #f and #false as nil
+  readConstant(c: string, start: ReaderMark): Obj {
+    const name = c + this.readToken();
+    if (!Object.hasOwn(constants, name)) {
+      throw this.error(`unknown constant #${name}`, start);
+    }
+    return constants[name];
+  }
+
+  // #n=datum labels datum so #n# can refer back to it later in the same
+  // top level form, including from inside datum itself to make cycles
+  readLabel(c: string, start: ReaderMark): Obj {
+    let label = c;
+    while (/[0-9]/.test(this.peek())) {
+      label += this.advance();
+    }
+    if (this.peek() === '#') {
+      this.advance();
+      const value = this.labels.get(label);
+      if (value === undefined) {
+        throw this.error(`undefined label #${label}#`, start);
+      }
+      return value;
+    }
+    this.consume('=');
+    // stands in for datum while it's being read, and is then replaced
+    const placeholder = makeSymbol(`#${label}#`);
+    this.labels.set(label, placeholder);
+    const value = this.readNext();
+    if (value === null || value === placeholder) {
+      throw this.error(`expected a datum after #${label}=`, start);
+    }
+    this.labels.set(label, value);
+    replacePlaceholder(value, placeholder, value);
+    return value;
+  }
+
+  // what a reader macro for c is called with: the items up to the
+  // closing bracket when c opens one, like #{1 2}, otherwise the datum
+  // after c
+  readDispatchArg(c: string, start: ReaderMark): Obj {
+    if (Object.hasOwn(closers, c)) {
+      const list = this.readList(closers[c], start);
+      this.consume(closers[c]);
+      return list;
+    }
+    const obj = this.readNext();
+    if (obj === null) {
+      throw this.error(`expected a datum after #${c}`, start);
+    }
+    return obj;
+  }
+
+  // 'obj => (quote obj)
+  readQuote(): ObjPair {
+    const obj = this.readNext();
+    if (obj === null) {
+      throw this.error('expected stuff after quote');
+    }
+    return cons(intern('quote'), cons(obj, nil));
+  }
+
+  // `obj => (quasiquote obj)
+  readQuasiquote(): ObjPair {
+    const obj = this.readNext();
+    if (obj === null) {
+      throw this.error('expected stuff after quasiquote');
+    }
+    return cons(intern('quasiquote'), cons(obj, nil));
   }
 
   // ,obj => (unquote obj)
+  // ,@obj => (unquote-splicing obj)
   readUnquote(): ObjPair {
+    let sym = intern('unquote');
+    if (this.peek() === '@') {
+      this.advance();
+      sym = intern('unquote-splicing');
+    }
     const obj = this.readNext();
     if (obj === null) {
-      throw new Error('expected stuff after unquote');
+      throw this.error(`expected stuff after ${sym.name}`);
     }
-    return cons(intern('unquote'), cons(obj, nil));
+    return cons(sym, cons(obj, nil));
   }
 
-  readList(delim = ')'): ObjPair | ObjNil {
+  // open is where the list started, used to report unclosed lists
+  readList(delim = ')', open = this.mark()): ObjPair | ObjNil {
+    this.skipComments();
     if (this.peek() === delim) {
       return nil;
     }
 
     const obj = this.readNext();
     if (obj === null) {
-      throw new Error('unexpected end of list');
+      throw this.error('unexpected end of list', open);
     }
 
     const head = cons(obj, nil);
     let tail = head;
 
     while (true) {
-      this.skipWhitespace();
+      this.skipComments();
       if (this.peek() === delim) {
         return head;
       }
 
       let dotted = false;
-      if (this.peek() === '.') {
+      // .5 is a number rather than a dot
+      if (this.peek() === '.' && !/[0-9]/.test(this.peek(1))) {
         this.consume('.');
         this.skipWhitespace();
         dotted = true;
@@ -581,7 +1990,7 @@ class Reader {
 
       const item = this.readNext();
       if (item === null) {
-        throw new Error('unexpected end of list');
+        throw this.error('unexpected end of list', open);
       }
 
       if (dotted) {
@@ -599,19 +2008,91 @@ class Reader {
     }
   }
 
+  // skips whitespace and comments: # followed by a space (or #! on the
+  // first line) to the end of the line, and #| blocks |#, which can nest
   skipComments() {
-    while (!this.atEof() && this.peek() === '#' && this.peek(1) !== '-') {
-      while(!this.atEof() && this.peek() !== '\n') {
-        this.advance();
+    this.skipWhitespace();
+    while (this.peek() === '#') {
+      if (this.peek(1) === '|') {
+        this.skipBlockComment();
+      } else if (this.pos + 1 >= this.source.length || /\s/.test(this.peek(1)) || (this.pos === 0 && this.peek(1) === '!')) {
+        while (!this.atEof() && this.peek() !== '\n') {
+          this.advance();
+        }
+      } else {
+        return;
       }
       this.skipWhitespace();
     }
   }
+
+  skipBlockComment() {
+    const start = this.mark();
+    this.consume('#');
+    this.consume('|');
+    let depth = 1;
+    while (depth > 0) {
+      if (this.atEof()) {
+        throw this.error('unterminated block comment', start);
+      }
+      if (this.peek() === '#' && this.peek(1) === '|') {
+        this.advance();
+        depth++;
+      } else if (this.peek() === '|' && this.peek(1) === '#') {
+        this.advance();
+        depth--;
+      }
+      this.advance();
+    }
+  }
+}
+
+
+// points whatever in obj refers to placeholder at value instead,
+// including the items of vectors and the keys and values of maps
+function replacePlaceholder(obj: Obj, placeholder: Obj, value: Obj, seen = new Set<Obj>()) {
+  const replace = (item: Obj): Obj => {
+    if (item === placeholder) {
+      return value;
+    }
+    replacePlaceholder(item, placeholder, value, seen);
+    return item;
+  };
+  while (obj.type === ObjType.Pair && !seen.has(obj)) {
+    seen.add(obj);
+    obj.car = replace(obj.car);
+    if (obj.cdr === placeholder) {
+      obj.cdr = value;
+    }
+    obj = obj.cdr;
+  }
+  if (seen.has(obj)) {
+    return;
+  }
+  if (obj.type === ObjType.Vector) {
+    seen.add(obj);
+    obj.items = obj.items.map(replace);
+  } else if (obj.type === ObjType.Map) {
+    seen.add(obj);
+    // keys are stored by how they print, which changes once they're replaced
+    const entries = [...obj.entries.values()];
+    obj.entries.clear();
+    for (const [key, item] of entries) {
+      mapSet(obj, replace(key), replace(item));
+    }
+  }
 }
 
 
 // UTILS
-function equal(a: Obj, b: Obj): boolean {
+// seen holds the pairs already being compared with each other, so two
+// cyclic lists are equal when they loop back to pairs that match
+export function equal(a: Obj, b: Obj, seen = new Map<Obj, Set<Obj>>()): boolean {
+  // numbers of different types can still be equal, like 2 and 4/2
+  if (isNumber(a) && isNumber(b)) {
+    return compareNumbers(a, b) === 0;
+  }
+
   // types must match
   if (a.type !== b.type) {
     return false;
@@ -629,23 +2110,50 @@ function equal(a: Obj, b: Obj): boolean {
     case ObjType.String: {
       return a.value === (b as ObjString).value;
     }
+    case ObjType.Char: {
+      return a.value === (b as ObjChar).value;
+    }
     case ObjType.Pair: {
-      if (listLen(a) !== listLen(b)) {
-        return false;
+      // walk the cdrs in a loop so long lists don't grow the stack
+      let x: Obj = a;
+      let y: Obj = b;
+      while (x.type === ObjType.Pair && y.type === ObjType.Pair) {
+        const pairs = seen.get(x) ?? new Set();
+        if (x === y || pairs.has(y)) {
+          return true;
+        }
+        seen.set(x, pairs.add(y));
+        if (!equal(x.car, y.car, seen)) {
+          return false;
+        }
+        x = x.cdr;
+        y = y.cdr;
       }
-
-      if (!equal(a.car, (b as ObjPair).car)) {
+      return equal(x, y, seen);
+    }
+    case ObjType.Vector: {
+      const other = (b as ObjVector).items;
+      return a.items.length === other.length && a.items.every((item, i) => equal(item, other[i], seen));
+    }
+    case ObjType.Map: {
+      const other = (b as ObjMap).entries;
+      if (a.entries.size !== other.size) {
         return false;
       }
-
-      return equal(a.cdr, (b as ObjPair).cdr);
+      for (const [key, [, value]] of a.entries) {
+        const entry = other.get(key);
+        if (!entry || !equal(value, entry[1], seen)) {
+          return false;
+        }
+      }
+      return true;
     }
   }
 
   return false;
 }
 
-function listLen(list: Obj): number {
+export function listLen(list: Obj): number {
   if (list.type !== ObjType.Pair) {
     return 0;
   }
@@ -664,23 +2172,89 @@ function listLen(list: Obj): number {
   return len;
 }
 
-function isList(list: Obj): boolean {
+// the key an obj is stored under in an ObjMap, so equal keys collide
+function mapKey(key: Obj): string {
+  switch (key.type) {
+    case ObjType.String: {
+      return `s:${key.value}`;
+    }
+    case ObjType.Num:
+    case ObjType.BigInt: {
+      return `n:${formatNumber(key).replace(/n$/, '')}`;
+    }
+    case ObjType.Ratio: {
+      // equal to a float when the float holds it exactly, like 1/2 and 0.5
+      const exact = Number.isSafeInteger(Number(key.num)) && (key.den & (key.den - 1n)) === 0n && key.den <= 2n ** 53n;
+      return `n:${exact ? toFloat(key) : formatNumber(key)}`;
+    }
+    case ObjType.Symbol: {
+      return `y:${key.name}`;
+    }
+    case ObjType.Keyword: {
+      return `k:${key.name}`;
+    }
+    case ObjType.Char: {
+      return `c:${key.value}`;
+    }
+  }
+  throw new ElyspError(`cannot use ${key.type} as a map key`);
+}
+
+export function mapSet(map: ObjMap, key: Obj, value: Obj) {
+  map.entries.set(mapKey(key), [key, value]);
+}
+
+// a copy of a vector or map with f applied to each item, or each key
+// and value, for the code walkers that look inside them
+function mapLiteral(obj: ObjVector | ObjMap, f: (obj: Obj) => Obj): ObjVector | ObjMap {
+  if (obj.type === ObjType.Vector) {
+    return { ...obj, items: obj.items.map(f) };
+  }
+  const map: ObjMap = { ...obj, entries: new Map() };
+  for (const [key, value] of obj.entries.values()) {
+    mapSet(map, f(key), f(value));
+  }
+  return map;
+}
+
+export function isList(list: Obj): boolean {
   return list === nil || list.type === ObjType.Pair;
 }
 
-function checkArity(args: Obj, min: number, max: number = min) {
+// everything but nil counts as true in conditions
+export function isTruthy(obj: Obj): boolean {
+  return obj !== nil;
+}
+
+export function arrayToList(items: Obj[]): Obj {
+  let list: Obj = nil;
+  for (let i = items.length - 1; i >= 0; i--) {
+    list = cons(items[i], list);
+  }
+  return list;
+}
+
+export function checkArity(args: Obj, min: number, max: number = min) {
   const len = listLen(args);
   if ((min !== -1 && len < min) || (max !== -1 && len > max)) {
-    throw new Error('arity mismatch');
+    let expected = `${min}`;
+    if (max === -1) {
+      expected = `at least ${min}`;
+    } else if (min === -1) {
+      expected = `at most ${max}`;
+    } else if (min !== max) {
+      expected = `${min} to ${max}`;
+    }
+    throw new ElyspError(`arity mismatch: expected ${expected} arguments but got ${len}`);
   }
 }
 
-function getArg<K extends ObjType>(_: ObjEnv, args: Obj, index: number, type?: K): Extract<Obj, { type: K }> | ObjNil {
+export function getArg<K extends ObjType>(_: ObjEnv, args: Obj, index: number, type?: K): Extract<Obj, { type: K }> | ObjNil {
   if (args === nil) {
     return nil;
   }
   if (args.type !== ObjType.Pair) {
-    throw new Error('expected list as arguments');
+    throw new ElyspError('expected list as arguments');
   }
 
   let argAtIndex: Obj = nil;
@@ -700,55 +2274,271 @@ function getArg<K extends ObjType>(_: ObjEnv, args: Obj, index: number, type?: K
   }
 
   if (type && argAtIndex.type !== type) {
-    throw new Error(`expected type ${type} but got ${argAtIndex.type}`);
+    throw new ElyspError(`expected type ${type} but got ${argAtIndex.type}`);
   }
   return argAtIndex as Extract<Obj, { type: K }>;
 }
 
-function evalArg<K extends ObjType>(env: ObjEnv, args: Obj, index: number, type?: K): Extract<Obj, { type: K }> {
+export function evalArg<K extends ObjType>(env: ObjEnv, args: Obj, index: number, type?: K): Extract<Obj, { type: K }> {
   const arg = getArg(env, args, index);
   const earg = evaluate(env, arg);
   if (type && earg.type !== type) {
-    throw new Error(`expected type ${type} but got ${earg.type}`);
+    throw new ElyspError(`expected type ${type} but got ${earg.type}`);
   }
   return earg as Extract<Obj, { type: K }>;
 }
 
-function evaluateUnquotes(env: ObjEnv, args: Obj): Obj {
-  if (args.type === ObjType.Pair && args.car === intern('unquote')) {
-    return evaluate(env, args);
-  }
+const quoteSym = intern('quote');
+const fnSym = intern('fn');
+const letSyms = [intern('let'), intern('let*'), intern('letrec')];
+const loopSyms = [intern('dotimes'), intern('dolist')];
+const defineSyms = [intern('define'), intern('defn'), intern('defmacro')];
+const quasiquoteSym = intern('quasiquote');
+const unquoteSym = intern('unquote');
+const unquoteSplicingSym = intern('unquote-splicing');
 
-  if (args.type !== ObjType.Pair) {
-    return args;
-  }
+// is obj a list like (sym x)
+function isForm(obj: Obj, sym: ObjSymbol): obj is ObjPair & { cdr: ObjPair } {
+  return obj.type === ObjType.Pair && obj.car === sym && obj.cdr.type === ObjType.Pair;
+}
 
-  let head: ObjPair | null = null;
-  let tail: ObjPair | null = null;
-  let obj: Obj = args;
+// quasiquote copies template, evaluating unquotes and splicing in
+// unquote-splicings. depth counts nested quasiquotes, only unquotes that
+// get back to depth 0 are evaluated, the rest are copied as they are
+function quasiquote(env: ObjEnv, template: Obj, depth: number): Obj {
+  if (template.type === ObjType.Vector) {
+    // as a list, so ,@ splices into vectors too
+    return makeVector(listItems('quasiquote', quasiquote(env, arrayToList(template.items), depth)));
+  }
+  if (template.type === ObjType.Map) {
+    return mapLiteral(template, (item) => quasiquote(env, item, depth));
+  }
+  if (template.type !== ObjType.Pair) {
+    return template;
+  }
+  if (isForm(template, unquoteSym)) {
+    if (depth === 1) {
+      return evaluate(env, template.cdr.car);
+    }
+    return cons(unquoteSym, cons(quasiquote(env, template.cdr.car, depth - 1), nil));
+  }
+  if (isForm(template, quasiquoteSym)) {
+    return cons(quasiquoteSym, cons(quasiquote(env, template.cdr.car, depth + 1), nil));
+  }
 
+  const items: Obj[] = [];
+  let obj: Obj = template;
   while (obj.type === ObjType.Pair) {
-    const result = evaluateUnquotes(env, obj.car);
-    if (head === null) {
-      head = tail = cons(result, nil);
-    } else if (tail !== null) {
-      tail.cdr = cons(result, nil);
-      tail = tail.cdr;
+    // `(a . ,b) reads as (a unquote b)
+    if (obj.car === unquoteSym) {
+      break;
+    }
+    const item = obj.car;
+    if (isForm(item, unquoteSplicingSym) && depth === 1) {
+      const spliced = evaluate(env, item.cdr.car);
+      if (!isList(spliced)) {
+        throw new ElyspError(`unquote-splicing expects a list but got ${fmt(spliced)}`);
+      }
+      forEach(spliced, (obj) => items.push(obj));
+    } else if (isForm(item, unquoteSplicingSym)) {
+      items.push(cons(unquoteSplicingSym, cons(quasiquote(env, item.cdr.car, depth - 1), nil)));
+    } else {
+      items.push(quasiquote(env, item, depth));
     }
     obj = obj.cdr;
   }
 
-  if (head === null) {
-    return args;
+  let result = quasiquote(env, obj, depth);
+  for (let i = items.length - 1; i >= 0; i--) {
+    result = cons(items[i], result);
   }
+  return result;
+}
 
-  return head;
+// true if obj has an unquote outside of any nested quasiquote, which
+// used to be evaluated when quote doubled as quasiquote
+// seen stops it going round cycles made with #n= labels
+function hasUnquote(obj: Obj, seen = new Set<Obj>()): boolean {
+  if (obj.type !== ObjType.Pair || isForm(obj, quasiquoteSym) || seen.has(obj)) {
+    return false;
+  }
+  seen.add(obj);
+  if (obj.car === unquoteSym || obj.car === unquoteSplicingSym) {
+    return true;
+  }
+  return hasUnquote(obj.car, seen) || hasUnquote(obj.cdr, seen);
+}
+
+// quoted forms that have already been warned about, see primQuote
+const legacyQuotes = new WeakSet<Obj>();
+
+// NUMBERS
+// numbers are floats (plain JS numbers), BigInts or exact ratios. mixing
+// a float with anything else gives a float, except for whole floats which
+// mix exactly with BigInts, so (* 10n 2) is 20n but (+ 1 1/2) is 1.5
+export type ObjNumber = ObjNum | ObjBigInt | ObjRatio;
+
+export function isNumber(obj: Obj): obj is ObjNumber {
+  return obj.type === ObjType.Num || obj.type === ObjType.BigInt || obj.type === ObjType.Ratio;
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+  while (b !== 0n) {
+    [a, b] = [b, a % b];
+  }
+  return a < 0n ? -a : a;
+}
+
+// division rounding towards negative infinity
+function floorDiv(a: bigint, b: bigint): bigint {
+  const quotient = a / b;
+  return a % b !== 0n && (a < 0n) !== (b < 0n) ? quotient - 1n : quotient;
+}
+
+// makeRatio makes num/den in lowest terms, or a BigInt if it's whole
+export function makeRatio(num: bigint, den: bigint): ObjBigInt | ObjRatio {
+  if (den === 0n) {
+    throw new ElyspError('division by zero');
+  }
+  const divisor = den < 0n ? -gcd(num, den) : gcd(num, den);
+  if (den / divisor === 1n) {
+    return makeBigInt(num / divisor);
+  }
+  return { type: ObjType.Ratio, num: num / divisor, den: den / divisor };
+}
+
+function formatNumber(n: ObjNumber): string {
+  switch (n.type) {
+    case ObjType.Num:
+      return n.value.toString();
+    case ObjType.BigInt:
+      return `${n.value}n`;
+    case ObjType.Ratio:
+      return `${n.num}/${n.den}`;
+  }
+}
+
+function toFloat(n: ObjNumber): number {
+  switch (n.type) {
+    case ObjType.Num:
+      return n.value;
+    case ObjType.BigInt:
+      return Number(n.value);
+    case ObjType.Ratio:
+      return Number(n.num) / Number(n.den);
+  }
+}
+
+// n as an exact [num, den], or null for floats that aren't whole
+function toExact(n: ObjNumber): [bigint, bigint] | null {
+  switch (n.type) {
+    case ObjType.Num:
+      return Number.isInteger(n.value) ? [BigInt(n.value), 1n] : null;
+    case ObjType.BigInt:
+      return [n.value, 1n];
+    case ObjType.Ratio:
+      return [n.num, n.den];
+  }
+}
+
+// an operation on two numbers, for floats and for exact [num, den] pairs
+type NumericOp = {
+  float: (a: number, b: number) => number;
+  exact: (a: [bigint, bigint], b: [bigint, bigint]) => ObjNumber;
+}
+
+function numericOp(a: ObjNumber, b: ObjNumber, op: NumericOp): ObjNumber {
+  const x = a.type === ObjType.Num && b.type !== ObjType.BigInt ? null : toExact(a);
+  const y = b.type === ObjType.Num && a.type !== ObjType.BigInt ? null : toExact(b);
+  if (x === null || y === null) {
+    return makeNum(op.float(toFloat(a), toFloat(b)));
+  }
+  return op.exact(x, y);
+}
+
+const addOp: NumericOp = {
+  float: (a, b) => a + b,
+  exact: ([an, ad], [bn, bd]) => makeRatio(an * bd + bn * ad, ad * bd),
+};
+const subtractOp: NumericOp = {
+  float: (a, b) => a - b,
+  exact: ([an, ad], [bn, bd]) => makeRatio(an * bd - bn * ad, ad * bd),
+};
+const multiplyOp: NumericOp = {
+  float: (a, b) => a * b,
+  exact: ([an, ad], [bn, bd]) => makeRatio(an * bn, ad * bd),
+};
+const divideOp: NumericOp = {
+  float: (a, b) => a / b,
+  exact: ([an, ad], [bn, bd]) => makeRatio(an * bd, ad * bn),
+};
+// the remainder has the sign of the divisor, so (mod -1 3) is 2
+const modOp: NumericOp = {
+  float: (a, b) => {
+    if (b === 0) {
+      throw new ElyspError('division by zero');
+    }
+    return ((a % b) + b) % b;
+  },
+  exact: ([an, ad], [bn, bd]) => {
+    if (bn === 0n) {
+      throw new ElyspError('division by zero');
+    }
+    const quotient = floorDiv(an * bd, ad * bn);
+    return makeRatio(an * bd - quotient * bn * ad, ad * bd);
+  },
+};
+
+// negative if a < b, 0 if they're equal and positive if a > b, NaN
+// if either is NaN
+function compareNumbers(a: ObjNumber, b: ObjNumber): number {
+  const x = a.type === ObjType.Num && b.type === ObjType.Num ? null : toExact(a);
+  const y = x === null ? null : toExact(b);
+  if (x === null || y === null) {
+    const fa = toFloat(a);
+    const fb = toFloat(b);
+    return fa === fb ? 0 : fa - fb;
+  }
+  const diff = x[0] * y[1] - y[0] * x[1];
+  return diff < 0n ? -1 : diff > 0n ? 1 : 0;
+}
+
+function evalNumber(env: ObjEnv, arg: Obj): ObjNumber {
+  const value = evaluate(env, arg);
+  if (!isNumber(value)) {
+    throw new ElyspError(`expected type ${ObjType.Num} but got ${value.type}`);
+  }
+  return value;
+}
+
+function evalNumbers(env: ObjEnv, args: Obj): ObjNumber[] {
+  const values: ObjNumber[] = [];
+  forEach(args, (arg) => values.push(evalNumber(env, arg)));
+  return values;
 }
 
 // PRIMITIVES
+// print and display show strings as they are, write as they'd be
+// written in code so what it prints can be read back
 function primPrint(env: ObjEnv, args: Obj): Obj {
   checkArity(args, 1);
-  print(evalArg(env, args, 0));
+  puts(display(evalArg(env, args, 0), printOptions(env)));
+  return nil;
+}
+
+function primWrite(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1);
+  puts(fmt(evalArg(env, args, 0), printOptions(env)));
+  return nil;
+}
+
+// (pprint obj [width]) writes obj laid out over lines of at most width
+// columns, 80 by default, then a newline
+function primPprint(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1, 2);
+  const obj = evalArg(env, args, 0);
+  const width = args.type === ObjType.Pair && args.cdr !== nil ? toFloat(evalNumber(env, getArg(env, args, 1))) : 80;
+  puts(fmt(obj, { ...printOptions(env), width }) + '\n');
   return nil;
 }
 
@@ -758,16 +2548,27 @@ function primPrintln(env: ObjEnv, args: Obj): Obj {
   return nil;
 }
 
-function primQuote(env: ObjEnv, args: Obj): Obj {
+function primQuote(_: ObjEnv, args: Obj): Obj {
   if (args.type !== ObjType.Pair) {
-    throw new Error('malformed quote');
+    throw new ElyspError('malformed quote');
+  }
+  const datum = args.car;
+  // quote used to evaluate unquotes, point old code at quasiquote
+  if (datum.type === ObjType.Pair && !legacyQuotes.has(datum) && hasUnquote(datum)) {
+    legacyQuotes.add(datum);
+    const at = datum.loc ? ` at ${datum.loc.file}:${datum.loc.line}:${datum.loc.col}` : '';
+    puts(`${yellow('warning')}: unquote inside quote${at} is no longer evaluated, use \` (quasiquote) instead\n`);
   }
-  return evaluateUnquotes(env, args.car);
+  return datum;
 }
 
-function primUnquote(env: ObjEnv, args: Obj): Obj {
+function primQuasiquote(env: ObjEnv, args: Obj): Obj {
   checkArity(args, 1);
-  return evaluate(env, (args as ObjPair).car);
+  return quasiquote(env, (args as ObjPair).car, 1);
+}
+
+function primUnquote(): Obj {
+  throw new ElyspError('unquote used outside of quasiquote');
 }
 
 function primList(env: ObjEnv, args: Obj): Obj {
@@ -775,17 +2576,35 @@ function primList(env: ObjEnv, args: Obj): Obj {
   return evaluateList(env, args);
 }
 
+// (set! name value) changes the nearest binding of name, unlike define
+// which adds a new one to the current env
+function primSet(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 2);
+  const sym = getArg(env, args, 0);
+  if (sym.type !== ObjType.Symbol) {
+    throw new ElyspError(`set!: expected a symbol but got ${fmt(sym)}`);
+  }
+  const val = evalArg(env, args, 1);
+  if (!updateVariable(env, sym, val)) {
+    throw new ElyspError(`set!: unknown symbol: ${sym.name}`);
+  }
+  return val;
+}
+
 function primDefine(env: ObjEnv, args: Obj): Obj {
   checkArity(args, 2);
   if (!(args.type === ObjType.Pair && args.car.type === ObjType.Symbol)) {
-    throw new Error('malformed define');
+    throw new ElyspError('malformed define');
   }
   if (args.cdr.type !== ObjType.Pair) {
-    throw new Error('malformed define');
+    throw new ElyspError('malformed define');
   }
 
   const sym = args.car;
   const val = evaluate(env, args.cdr.car);
+  if ((val.type === ObjType.Fn || val.type === ObjType.Macro) && !val.name) {
+    val.name = sym.name;
+  }
   addVariable(env, sym, val);
   return val;
 }
@@ -793,11 +2612,12 @@ function primDefine(env: ObjEnv, args: Obj): Obj {
 function primDefn(env: ObjEnv, args: Obj): Obj {
   checkArity(args, 3, -1);
   if (!(args.type === ObjType.Pair && args.car.type === ObjType.Symbol && args.cdr.type === ObjType.Pair)) {
-    throw new Error('malformed defn');
+    throw new ElyspError('malformed defn');
   }
   const sym = args.car;
   const rest = args.cdr;
-  const fn = primFn(env, rest);
+  const fn = primFn(env, rest) as ObjFn;
+  fn.name = sym.name;
   addVariable(env, sym, fn);
   return fn;
 }
@@ -805,16 +2625,13 @@ function primDefn(env: ObjEnv, args: Obj): Obj {
 function primFn(env: ObjEnv, args: Obj): Obj {
   checkArity(args, 2, -1);
   if (args.type !== ObjType.Pair || !isList(args) || args.cdr.type !== ObjType.Pair) {
-    throw new Error('malformed lambda');
+    throw new ElyspError('malformed lambda');
   }
 
-  forEach(args.car, (arg: Obj) => {
-    if (arg.type !== ObjType.Symbol) {
-      throw new Error('parameter must be a symbol');
-    }
-  });
-
-  return makeFn(env, args.car, args.cdr, ObjType.Fn);
+  checkParams(args.car);
+  const fn = makeFn(env, args.car, args.cdr, ObjType.Fn);
+  fn.code = compileBody(env, args.cdr, fnScope(args.car, args.cdr, null));
+  return fn;
 }
 
 function primEqual(env: ObjEnv, args: Obj): Obj {
@@ -856,200 +2673,1752 @@ function primReaderDebug(env: ObjEnv): Obj {
 
 function primDefmacro(env: ObjEnv, args: Obj): Obj {
   if (!(args.type === ObjType.Pair && args.car.type === ObjType.Symbol && args.cdr.type === ObjType.Pair)) {
-    throw new Error('malformed defmacro');
+    throw new ElyspError('malformed defmacro');
   }
   const sym = args.car;
   const rest = args.cdr;
 
-  forEach(rest.car, (arg: Obj) => {
-    if (arg.type !== ObjType.Symbol) {
-      throw new Error('parameter must be a symbol');
-    }
-  });
-
+  checkParams(rest.car);
   const macro = makeFn(env, rest.car, rest.cdr, ObjType.Macro);
+  macro.name = sym.name;
   addVariable(env, sym, macro);
   return macro;
 }
 
+// (defsyntax name params body...) is defmacro, but variables bound by the
+// macro's own code are renamed so they can't capture the caller's
+function primDefsyntax(env: ObjEnv, args: Obj): Obj {
+  const macro = primDefmacro(env, args) as ObjFn;
+  macro.hygienic = true;
+  return macro;
+}
+
+function primGensym(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 0, 1);
+  const prefix = evalArg(env, args, 0);
+  if (prefix !== nil && prefix.type !== ObjType.String) {
+    throw new ElyspError(`expected type ${ObjType.String} but got ${prefix.type}`);
+  }
+  return gensym(prefix.type === ObjType.String ? prefix.value : undefined);
+}
+
+// (macroexpand-1 form) expands form once if it's a macro call
 function primMacex(env: ObjEnv, args: Obj): Obj {
   checkArity(args, 1);
   return macroExpand(env, (args as ObjPair).car);
 }
 
-function primImport(env: ObjEnv, args: Obj): Obj {
+// (macroexpand-all form) expands every macro call in form
+function primMacroexpandAll(env: ObjEnv, args: Obj): Obj {
   checkArity(args, 1);
+  return macroExpandAll(env, (args as ObjPair).car);
+}
 
-  // read file
-  const path = evalArg(env, args, 0, ObjType.String);
-  const fileContent = Deno.readTextFileSync(path.value);
-
-  // eval file
-  const moduleGlobalEnv = createDefaultEnv();
-  const moduleEnv = makeEnv(nil, moduleGlobalEnv);
-  const reader = new Reader(fileContent);
+function primMacroTrace(env: ObjEnv): Obj {
+  const sym = intern('macro-trace');
+  const trace = find(env, sym);
+  if (trace === trueSym) {
+    puts('macro tracing OFF\n');
+    setVariable(env, sym, nil);
+  } else {
+    puts('macro tracing ON\n');
+    setVariable(env, sym, trueSym);
+  }
+  return nil;
+}
 
-  try {
-    while (!reader.atEof()) {
-      const next = reader.read();
-      if (next === null) {
-        break;
-      }
-      evaluate(moduleEnv, next);
-    }
-  } catch (e) {
-    throw e;
+// (reader-macro #\c fn) makes the reader read #c... by calling fn with
+// what follows, see Reader.readDispatchArg. it applies to the forms
+// read after this one in the same file, and in files read on top of its
+// env, see readerMacros
+function primReaderMacro(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 2);
+  const c = evalArg(env, args, 0);
+  const fn = evalArg(env, args, 1);
+  if (c.type !== ObjType.Char || delimiters.test(c.value) && !Object.hasOwn(closers, c.value)) {
+    throw new ElyspError(`reader-macro: expected a character that can follow # but got ${fmt(c)}`);
+  }
+  // | and ! start comments, see skipComments
+  if (dispatchMacros.has(c.value) || c.value === '|' || c.value === '!') {
+    throw new ElyspError(`reader-macro: #${c.value} is built in and can't be replaced`);
   }
+  if (fn.type !== ObjType.Fn && fn.type !== ObjType.NativeFn) {
+    throw new ElyspError(`reader-macro: expected a function but got ${fn.type}`);
+  }
+  // the env the code calling this was read for, or the outermost one
+  let readEnv = env;
+  while (!readerMacros.has(readEnv) && readEnv.up.type === ObjType.Env) {
+    readEnv = readEnv.up;
+  }
+  const macros = readerMacros.get(readEnv) ?? new Map<string, DispatchMacro>();
+  macros.set(c.value, (reader, _, start) => applyValues(fn, cons(reader.readDispatchArg(c.value, start), nil)));
+  readerMacros.set(readEnv, macros);
+  return nil;
+}
 
-  // merge env
-  forEach(moduleEnv.vars, (obj: Obj) => {
-    if (obj.type === ObjType.Pair && obj.car.type === ObjType.Symbol) {
-      addVariable(env, obj.car, obj.cdr);
-    }
-  });
+type Module = {
+  env: ObjEnv;
+  // the bindings the module exports, null while it's still loading
+  exports: ObjEnv | null;
+};
 
-  return moduleEnv;
-}
+// modules by absolute path for each base env, so each file is only
+// evaluated once per interpreter
+const moduleCaches = new WeakMap<ObjEnv, Map<string, Module>>();
+// the files currently being imported, for reporting cycles
+const importStack: string[] = [];
 
-function primError(env: ObjEnv, args: Obj): Obj {
-  checkArity(args, 1);
-  const msg = evalArg(env, args, 0, ObjType.String);
-  throw new Error(msg.value);
+// resolves path relative to the directory of the file from, or the
+// current directory if there isn't one
+function resolvePath(from: string | null, path: string): string {
+  let base = '';
+  if (!path.startsWith('/')) {
+    base = from ? from.substring(0, from.lastIndexOf('/')) : Deno.cwd();
+  }
+  const parts: string[] = [];
+  for (const part of `${base}/${path}`.split('/')) {
+    if (part === '..') {
+      parts.pop();
+    } else if (part !== '' && part !== '.') {
+      parts.push(part);
+    }
+  }
+  return `/${parts.join('/')}`;
 }
 
-function primIf(env: ObjEnv, args: Obj): Obj {
-  checkArity(args, 2, 3);
-  const cond = evalArg(env, args, 0);
-  const ifExpr = getArg(env, args, 1);
-  const elseExpr = getArg(env, args, 2);
+// the file the code running in env was loaded from
+function currentFile(env: ObjEnv): string | null {
+  const file = find(env, intern('*file*'));
+  return file !== null && file.type === ObjType.String ? file.value : null;
+}
 
-  if (cond === trueSym) {
-    return evaluate(env, ifExpr);
+// the outermost env, holding the primitives and prelude
+function rootEnv(env: ObjEnv): ObjEnv {
+  let root = env;
+  while (root.up.type === ObjType.Env) {
+    root = root.up;
   }
-  return evaluate(env, elseExpr);
+  return root;
 }
 
-function primString(env: ObjEnv, args: Obj): Obj {
-  checkArity(args, 1, -1);
-  const strings: string[] = [];
-
-  forEach(args, (arg) => {
-    const earg = evaluate(env, arg);
-    strings.push(fmt(earg));
-  });
+// loadModule evaluates the file at path in a new env on top of base
+function loadModule(base: ObjEnv, path: string): Module {
+  let moduleCache = moduleCaches.get(base);
+  if (!moduleCache) {
+    moduleCache = new Map();
+    moduleCaches.set(base, moduleCache);
+  }
 
-  if (strings.length === 0) {
-    return nil;
+  const cached = moduleCache.get(path);
+  if (cached) {
+    if (cached.exports === null) {
+      const cycle = [...importStack.slice(importStack.indexOf(path)), path];
+      throw new ElyspError(`import cycle: ${cycle.join(' -> ')}`);
+    }
+    return cached;
   }
 
-  return makeString(strings.join(''));
+  const module: Module = { env: makeEnv(base), exports: null };
+  addVariable(module.env, intern('*file*'), makeString(path));
+  moduleCache.set(path, module);
+  importStack.push(path);
+  try {
+    evaluateSource(module.env, Deno.readTextFileSync(path), path);
+    module.exports = moduleExports(module.env);
+  } catch (e) {
+    // let it be imported again once whatever went wrong is fixed
+    moduleCache.delete(path);
+    throw e;
+  } finally {
+    importStack.pop();
+  }
+  return module;
 }
 
-function createNumericPrim(fn: (a: number, b: number) => number): ElyspFn {
-  return (env, args) => {
-    checkArity(args, 2);
-    const a = evalArg(env, args, 0, ObjType.Num);
-    const b = evalArg(env, args, 1, ObjType.Num);
-    return makeNum(fn(a.value, b.value));
+// the bindings named by export, or every binding in the module if
+// it doesn't use export
+function moduleExports(moduleEnv: ObjEnv): ObjEnv {
+  const exportList = find(moduleEnv, intern('*exports*'));
+  const names: ObjSymbol[] = [];
+  if (exportList !== null) {
+    // the most recently exported comes first
+    forEach(exportList, (sym) => names.unshift(sym as ObjSymbol));
+  } else {
+    const hidden = [intern('*file*'), intern('*exports*')];
+    for (const name of moduleEnv.vars.keys()) {
+      if (!hidden.includes(name)) {
+        names.push(name);
+      }
+    }
+  }
+
+  const exports = makeEnv(nil);
+  for (const name of names) {
+    const value = find(moduleEnv, name);
+    if (value === null) {
+      throw new ElyspError(`cannot export undefined symbol ${name.name}`);
+    }
+    addVariable(exports, name, value);
   }
+  return exports;
 }
 
-function createDefaultEnv(): ObjEnv {
-  const env = makeEnv(nil, nil);
-  addVariable(env, intern('nil'), nil);
-  addVariable(env, trueSym, trueSym);
+// (import path) binds everything the module exports
+// (import path :as x) makes them available as x/name
+// (import path :only (a b)) binds just a and b
+function primImport(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1, 3);
 
-  const primitives: Record<string, ElyspFn> = {
-    'fn': primFn,
-    'define': primDefine,
-    'defn': primDefn,
+  const path = evalArg(env, args, 0, ObjType.String);
+  const module = loadModule(rootEnv(env), resolvePath(currentFile(env), path.value));
+  const exports = module.exports as ObjEnv;
+
+  const option = getArg(env, args, 1);
+  const value = getArg(env, args, 2);
+  if (option === keyword('as') && value.type === ObjType.Symbol) {
+    addVariable(env, value, exports);
+  } else if (option === keyword('only') && isList(value)) {
+    forEach(value, (sym) => {
+      const bind = sym.type === ObjType.Symbol ? find(exports, sym) : null;
+      if (bind === null) {
+        throw new ElyspError(`${path.value} does not export ${fmt(sym)}`);
+      }
+      addVariable(env, sym as ObjSymbol, bind);
+    });
+  } else if (option === nil) {
+    for (const [name, value] of exports.vars) {
+      addVariable(env, name, value);
+    }
+  } else {
+    throw new ElyspError('malformed import, expected :as name or :only (names...)');
+  }
+
+  return exports;
+}
+
+// (export names...) sets what a module makes available to import
+function primExport(env: ObjEnv, args: Obj): Obj {
+  const sym = intern('*exports*');
+  let exportList = find(env, sym) ?? nil;
+  forEach(args, (name) => {
+    if (name.type !== ObjType.Symbol) {
+      throw new ElyspError('export expects symbols');
+    }
+    exportList = cons(name, exportList);
+  });
+  setVariable(env, sym, exportList);
+  return nil;
+}
+
+// (error msg [data]) throws a new error, (error e) rethrows a caught one
+function primError(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1, 2);
+  const msg = evalArg(env, args, 0);
+  const data = evalArg(env, args, 1);
+  if (msg.type === ObjType.Error) {
+    throw new ElyspError(msg.message, msg.loc, msg.data);
+  }
+  if (msg.type !== ObjType.String) {
+    throw new ElyspError(`expected type ${ObjType.String} but got ${msg.type}`);
+  }
+  throw new ElyspError(msg.value, undefined, data);
+}
+
+// (try body... (catch e handler...) (finally cleanup...))
+// both catch and finally are optional
+function primTry(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1, -1);
+  const catchSym = intern('catch');
+  const finallySym = intern('finally');
+
+  const body: Obj[] = [];
+  let handler: ObjPair | null = null;
+  let cleanup: ObjPair | null = null;
+  let obj = args;
+  while (obj.type === ObjType.Pair) {
+    const form = obj.car;
+    if (form.type === ObjType.Pair && form.car === catchSym) {
+      if (form.cdr.type !== ObjType.Pair || form.cdr.car.type !== ObjType.Symbol) {
+        throw new ElyspError('malformed catch');
+      }
+      handler = form.cdr;
+    } else if (form.type === ObjType.Pair && form.car === finallySym) {
+      cleanup = form;
+    } else if (handler || cleanup) {
+      throw new ElyspError('malformed try, catch and finally must come last');
+    } else {
+      body.push(form);
+    }
+    obj = obj.cdr;
+  }
+
+  try {
+    let result: Obj = nil;
+    for (const form of body) {
+      result = evaluate(env, form);
+    }
+    return result;
+  } catch (e) {
+    if (!handler || e instanceof LoopBreak || e instanceof LoopContinue) {
+      throw e;
+    }
+    const err = withLoc(e);
+    const errObj = makeError(err.message, err.data, err.loc);
+    const handlerEnv = pushEnv(env, cons(handler.car, nil), cons(errObj, nil));
+    return evaluateBody(handlerEnv, handler.cdr);
+  } finally {
+    if (cleanup) {
+      evaluateBody(env, cleanup.cdr);
+    }
+  }
+}
+
+function primErrorMessage(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1);
+  const err = evalArg(env, args, 0, ObjType.Error);
+  return makeString(err.message);
+}
+
+function primErrorData(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1);
+  const err = evalArg(env, args, 0, ObjType.Error);
+  return err.data;
+}
+
+function primIf(env: ObjEnv, args: Obj): TailCall {
+  checkArity(args, 2, 3);
+  const cond = evalArg(env, args, 0);
+  const ifExpr = getArg(env, args, 1);
+  const elseExpr = getArg(env, args, 2);
+
+  if (isTruthy(cond)) {
+    return new TailCall(env, ifExpr);
+  }
+  return new TailCall(env, elseExpr);
+}
+
+// evaluates all but the last form of body, which is left to the caller
+// so it's in tail position
+function tailBody(env: ObjEnv, body: Obj): Obj | TailCall {
+  if (body.type !== ObjType.Pair) {
+    return nil;
+  }
+  let obj = body;
+  while (obj.cdr.type === ObjType.Pair) {
+    evaluate(env, obj.car);
+    obj = obj.cdr;
+  }
+  return new TailCall(env, obj.car);
+}
+
+function primNot(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1);
+  return isTruthy(evalArg(env, args, 0)) ? nil : trueSym;
+}
+
+// (and a b...) is the first false value, or the last value if there isn't one
+function primAnd(env: ObjEnv, args: Obj): Obj | TailCall {
+  if (args.type !== ObjType.Pair) {
+    return trueSym;
+  }
+  let obj = args;
+  while (obj.cdr.type === ObjType.Pair) {
+    const value = evaluate(env, obj.car);
+    if (!isTruthy(value)) {
+      return value;
+    }
+    obj = obj.cdr;
+  }
+  return new TailCall(env, obj.car);
+}
+
+// (or a b...) is the first true value, or the last value if there isn't one
+function primOr(env: ObjEnv, args: Obj): Obj | TailCall {
+  if (args.type !== ObjType.Pair) {
+    return nil;
+  }
+  let obj = args;
+  while (obj.cdr.type === ObjType.Pair) {
+    const value = evaluate(env, obj.car);
+    if (isTruthy(value)) {
+      return value;
+    }
+    obj = obj.cdr;
+  }
+  return new TailCall(env, obj.car);
+}
+
+function primWhen(env: ObjEnv, args: Obj): Obj | TailCall {
+  checkArity(args, 1, -1);
+  return isTruthy(evalArg(env, args, 0)) ? tailBody(env, (args as ObjPair).cdr) : nil;
+}
+
+function primUnless(env: ObjEnv, args: Obj): Obj | TailCall {
+  checkArity(args, 1, -1);
+  return isTruthy(evalArg(env, args, 0)) ? nil : tailBody(env, (args as ObjPair).cdr);
+}
+
+// (cond (test body...)...) runs the body of the first clause whose test
+// is true, a clause without a body gives the value of its test
+function primCond(env: ObjEnv, args: Obj): Obj | TailCall {
+  let clause = args;
+  while (clause.type === ObjType.Pair) {
+    if (clause.car.type !== ObjType.Pair) {
+      throw new ElyspError('malformed cond, expected (test body...)');
+    }
+    const value = evaluate(env, clause.car.car);
+    if (isTruthy(value)) {
+      return clause.car.cdr === nil ? value : tailBody(env, clause.car.cdr);
+    }
+    clause = clause.cdr;
+  }
+  return nil;
+}
+
+// (case key (datum body...) ((datums...) body...) (t body...)) runs the
+// body of the first clause matching key, t or else matches anything
+function primCase(env: ObjEnv, args: Obj): Obj | TailCall {
+  checkArity(args, 1, -1);
+  const key = evalArg(env, args, 0);
+  const elseSym = intern('else');
+
+  let clause = (args as ObjPair).cdr;
+  while (clause.type === ObjType.Pair) {
+    if (clause.car.type !== ObjType.Pair) {
+      throw new ElyspError('malformed case, expected (datum body...)');
+    }
+    const datums = clause.car.car;
+    let matches = datums === trueSym || datums === elseSym || equal(datums, key);
+    forEach(datums, (datum) => {
+      matches ||= equal(datum, key);
+    });
+    if (matches) {
+      return tailBody(env, clause.car.cdr);
+    }
+    clause = clause.cdr;
+  }
+  return nil;
+}
+
+// the names and init forms of a let's bindings, each either (name init)
+// or just name, which is bound to nil
+function letBindings(bindings: Obj): { names: ObjSymbol[], inits: Obj[] } {
+  if (!isList(bindings)) {
+    throw new ElyspError('malformed let, expected a list of bindings');
+  }
+  const names: ObjSymbol[] = [];
+  const inits: Obj[] = [];
+  forEach(bindings, (binding) => {
+    const name = binding.type === ObjType.Pair ? binding.car : binding;
+    if (name.type !== ObjType.Symbol) {
+      throw new ElyspError(`malformed let binding ${fmt(binding)}`);
+    }
+    names.push(name);
+    inits.push(binding.type === ObjType.Pair && binding.cdr.type === ObjType.Pair ? binding.cdr.car : nil);
+  });
+  return { names, inits };
+}
+
+// (let ((a 1) (b 2)) body...) evaluates every init before binding any
+function primLet(env: ObjEnv, args: Obj): Obj | TailCall {
+  checkArity(args, 1, -1);
+  if (getArg(env, args, 0).type === ObjType.Symbol) {
+    return namedLet(env, args as ObjPair);
+  }
+  const { names, inits } = letBindings(getArg(env, args, 0));
+  const values = inits.map((init) => evaluate(env, init));
+  return tailBody(pushEnv(env, arrayToList(names), arrayToList(values)), (args as ObjPair).cdr);
+}
+
+// let* binds each name before evaluating the next init, so inits can
+// refer to earlier names
+function primLetStar(env: ObjEnv, args: Obj): Obj | TailCall {
+  checkArity(args, 1, -1);
+  const { names, inits } = letBindings(getArg(env, args, 0));
+  const letEnv = pushEnv(env, nil, nil);
+  names.forEach((name, i) => letEnv.vars.set(name, evaluate(letEnv, inits[i])));
+  return tailBody(letEnv, (args as ObjPair).cdr);
+}
+
+// letrec binds every name before evaluating any init, so fns in the
+// inits can call each other
+function primLetrec(env: ObjEnv, args: Obj): Obj | TailCall {
+  checkArity(args, 1, -1);
+  const { names, inits } = letBindings(getArg(env, args, 0));
+  const letEnv = pushEnv(env, arrayToList(names), arrayToList(names.map(() => nil)));
+  names.forEach((name, i) => {
+    const value = evaluate(letEnv, inits[i]);
+    if (value.type === ObjType.Fn && !value.name) {
+      value.name = name.name;
+    }
+    letEnv.vars.set(name, value);
+  });
+  return tailBody(letEnv, (args as ObjPair).cdr);
+}
+
+// (let name ((a 1)) body...) binds name to a fn of a that runs body, then
+// calls it. calling name in tail position from body loops without
+// growing the stack
+function namedLet(env: ObjEnv, args: ObjPair): Obj | TailCall {
+  checkArity(args, 2, -1);
+  const name = args.car as ObjSymbol;
+  const { names, inits } = letBindings(getArg(env, args, 1));
+  const values = inits.map((init) => evaluate(env, init));
+  const loopEnv = pushEnv(env, nil, nil);
+  const fn = primFn(loopEnv, cons(arrayToList(names), (args.cdr as ObjPair).cdr)) as ObjFn;
+  fn.name = name.name;
+  loopEnv.vars.set(name, fn);
+  return new TailCall(pushEnv(loopEnv, fn.params, arrayToList(values)), fn.body, fnCode(fn));
+}
+
+// break and continue end the loop whose body they're written in, which
+// can be from a fn made in the body, but not one called from it. each
+// loop binds loopSym in the env of its body to a box that is true while
+// the body runs, and break and continue find it like any variable. it's
+// never interned, so code can't refer to it
+const loopSym = makeSymbol('loop');
+
+// thrown by break and continue to get out of the loop running them. as
+// ElyspErrors they pass through whatever's in between unchanged, and are
+// reported like any other error if there's no loop
+class LoopBreak extends ElyspError {
+  loop: ObjBox;
+  value: Obj;
+
+  constructor(loop: ObjBox, value: Obj) {
+    super('break used outside of a loop');
+    this.loop = loop;
+    this.value = value;
+  }
+}
+
+class LoopContinue extends ElyspError {
+  loop: ObjBox;
+
+  constructor(loop: ObjBox) {
+    super('continue used outside of a loop');
+    this.loop = loop;
+  }
+}
+
+// the loop break or continue in env ends
+function currentLoop(env: ObjEnv, form: string): ObjBox {
+  const loop = find(env, loopSym);
+  if (loop === null || loop.type !== ObjType.Box || loop.value === nil) {
+    throw new ElyspError(`${form} used outside of a loop`);
+  }
+  return loop;
+}
+
+// runs one pass of a loop's body, giving the value passed to break if
+// it breaks out of the loop
+function runIteration(env: ObjEnv, body: Code, loop: ObjBox): Obj | undefined {
+  loop.value = trueSym;
+  try {
+    run(env, body);
+  } catch (e) {
+    if (e instanceof LoopBreak && e.loop === loop) {
+      return e.value;
+    }
+    if (!(e instanceof LoopContinue && e.loop === loop)) {
+      throw e;
+    }
+  } finally {
+    loop.value = nil;
+  }
+  return undefined;
+}
+
+// (while test body...) runs body for as long as test is true
+function primWhile(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1, -1);
+  const loop = makeBox(nil);
+  const bodyEnv = pushEnv(env, cons(loopSym, nil), cons(loop, nil));
+  const test = (args as ObjPair).car;
+  const body = compileBody(bodyEnv, (args as ObjPair).cdr, null);
+  while (isTruthy(evaluate(bodyEnv, test))) {
+    const result = runIteration(bodyEnv, body, loop);
+    if (result !== undefined) {
+      return result;
+    }
+  }
+  return nil;
+}
+
+// the (name init [result]) spec that starts a dotimes or dolist
+function loopSpec(env: ObjEnv, args: Obj, form: string): { name: ObjSymbol, init: Obj, result: Obj } {
+  const spec = getArg(env, args, 0);
+  const name = getArg(env, spec, 0);
+  if (name.type !== ObjType.Symbol || !isList(spec) || listLen(spec) < 2 || listLen(spec) > 3) {
+    throw new ElyspError(`malformed ${form}, expected (${form} (name ${form === 'dotimes' ? 'count' : 'list'} [result]) body...)`);
+  }
+  return { name, init: evaluate(env, getArg(env, spec, 1)), result: getArg(env, spec, 2) };
+}
+
+// runs body once for each item, with name bound to it, then gives the
+// value of result with name bound to last
+function runEach(env: ObjEnv, args: Obj, name: ObjSymbol, items: Iterable<Obj>, last: Obj, result: Obj): Obj | TailCall {
+  const body = compileBody(env, (args as ObjPair).cdr, null);
+  const loop = makeBox(nil);
+  for (const item of items) {
+    const value = runIteration(pushEnv(env, cons(loopSym, cons(name, nil)), cons(loop, cons(item, nil))), body, loop);
+    if (value !== undefined) {
+      return value;
+    }
+  }
+  return new TailCall(pushEnv(env, cons(name, nil), cons(last, nil)), result);
+}
+
+// (dotimes (i count [result]) body...) runs body with i from 0 up to
+// but not including count, result sees i as count
+function primDotimes(env: ObjEnv, args: Obj): Obj | TailCall {
+  checkArity(args, 1, -1);
+  const { name, init, result } = loopSpec(env, args, 'dotimes');
+  if (!isNumber(init)) {
+    throw new ElyspError(`dotimes: expected a number of times but got ${fmt(init)}`);
+  }
+  const count = toFloat(init);
+  function* counter() {
+    for (let i = 0; i < count; i++) {
+      yield makeNum(i);
+    }
+  }
+  return runEach(env, args, name, counter(), init, result);
+}
+
+// (dolist (x list [result]) body...) runs body with x bound to each item
+// of a list or vector, result sees x as nil
+function primDolist(env: ObjEnv, args: Obj): Obj | TailCall {
+  checkArity(args, 1, -1);
+  const { name, init, result } = loopSpec(env, args, 'dolist');
+  const items = init.type === ObjType.Vector ? init.items : listItems('dolist', init);
+  return runEach(env, args, name, items, nil, result);
+}
+
+// (break [value]) ends the innermost loop around it, which gives value
+function primBreak(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 0, 1);
+  const loop = currentLoop(env, 'break');
+  throw new LoopBreak(loop, evalArg(env, args, 0));
+}
+
+// (continue) skips the rest of this pass of the innermost loop around it
+function primContinue(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 0);
+  throw new LoopContinue(currentLoop(env, 'continue'));
+}
+
+function primString(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1, -1);
+  const strings: string[] = [];
+
+  forEach(args, (arg) => {
+    const earg = evaluate(env, arg);
+    strings.push(display(earg));
+  });
+
+  if (strings.length === 0) {
+    return nil;
+  }
+
+  return makeString(strings.join(''));
+}
+
+// makes +, -, * or /, folding op over the arguments from the left. a
+// single argument is combined with unit first, so (- 1) is -1 and (/ 2)
+// is 0.5, and no arguments at all give unit
+function createNumericPrim(op: NumericOp, unit: number, minArgs = 0): ElyspFn {
+  return (env, args) => {
+    checkArity(args, minArgs, -1);
+    const values = evalNumbers(env, args);
+    if (values.length <= 1) {
+      // an exact unit for exact numbers, so (- 1/2) stays a ratio
+      values.unshift(values[0] === undefined || values[0].type === ObjType.Num ? makeNum(unit) : makeBigInt(BigInt(unit)));
+    }
+    return values.reduce((a, b) => numericOp(a, b, op));
+  };
+}
+
+// makes a primitive checking test holds for each neighbouring pair of
+// its arguments, test is passed the result of compareNumbers
+function createComparisonPrim(test: (order: number) => boolean): ElyspFn {
+  return (env, args) => {
+    checkArity(args, 1, -1);
+    const values = evalNumbers(env, args);
+    for (let i = 1; i < values.length; i++) {
+      if (!test(compareNumbers(values[i - 1], values[i]))) {
+        return nil;
+      }
+    }
+    return trueSym;
+  };
+}
+
+function primMod(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 2);
+  return numericOp(evalNumber(env, getArg(env, args, 0)), evalNumber(env, getArg(env, args, 1)), modOp);
+}
+
+function primAbs(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1);
+  const n = evalNumber(env, getArg(env, args, 0));
+  if (n.type === ObjType.Num) {
+    return makeNum(Math.abs(n.value));
+  }
+  return compareNumbers(n, makeNum(0)) < 0 ? numericOp(makeBigInt(0n), n, subtractOp) : n;
+}
+
+function primFloor(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1);
+  const n = evalNumber(env, getArg(env, args, 0));
+  switch (n.type) {
+    case ObjType.Num:
+      return makeNum(Math.floor(n.value));
+    case ObjType.BigInt:
+      return n;
+    case ObjType.Ratio:
+      return makeBigInt(floorDiv(n.num, n.den));
+  }
+}
+
+// always a float, even for exact squares
+function primSqrt(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1);
+  return makeNum(Math.sqrt(toFloat(evalNumber(env, getArg(env, args, 0)))));
+}
+
+function createExtremumPrim(pick: (order: number) => boolean): ElyspFn {
+  return (env, args) => {
+    checkArity(args, 1, -1);
+    return evalNumbers(env, args).reduce((a, b) => pick(compareNumbers(b, a)) ? b : a);
+  };
+}
+
+// TESTS
+type TestCase = {
+  name: string;
+  body: Obj;
+  env: ObjEnv;
+};
+
+// the tests deftest has registered while loading a file for runTests
+// and the number of assertions checked with is
+type TestRun = {
+  tests: TestCase[];
+  assertions: number;
+};
+
+// the run each base env runTests loads files into belongs to
+const testRuns = new WeakMap<ObjEnv, TestRun>();
+
+// the run code in env is part of, or undefined outside of runTests
+function findTestRun(env: ObjEnv): TestRun | undefined {
+  let root = env;
+  while (root.up.type === ObjType.Env) {
+    root = root.up;
+  }
+  return testRuns.get(root);
+}
+
+// (deftest name body...), ignored outside of runTests
+function primDeftest(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 2, -1);
+  if (args.type !== ObjType.Pair || (args.car.type !== ObjType.String && args.car.type !== ObjType.Symbol)) {
+    throw new ElyspError('malformed deftest');
+  }
+  const name = args.car.type === ObjType.String ? args.car.value : args.car.name;
+  findTestRun(env)?.tests.push({ name, body: args.cdr, env });
+  return nil;
+}
+
+// (is form [msg]) fails the current test unless form is true
+// (is (= actual expected)) also reports both sides when they differ
+function primIs(env: ObjEnv, args: Obj): Obj {
+  checkArity(args, 1, 2);
+  const form = getArg(env, args, 0);
+  const msg = evalArg(env, args, 1);
+  const prefix = msg.type === ObjType.String ? `${msg.value}: ` : '';
+  const run = findTestRun(env);
+  if (run) {
+    run.assertions++;
+  }
+
+  if (form.type === ObjType.Pair && form.car === intern('=') && listLen(form) === 3) {
+    const actual = evalArg(env, form.cdr, 0);
+    const expected = evalArg(env, form.cdr, 1);
+    if (!equal(actual, expected)) {
+      throw new ElyspError(`${prefix}(is ${fmt(form)}) failed\n${describeDiff(actual, expected)}`);
+    }
+    return trueSym;
+  }
+
+  const result = evaluate(env, form);
+  if (!isTruthy(result)) {
+    throw new ElyspError(`${prefix}(is ${fmt(form)}) failed, got ${fmt(result)}`);
+  }
+  return trueSym;
+}
+
+function describeDiff(actual: Obj, expected: Obj): string {
+  let output = `  expected: ${fmt(expected)}\n    actual: ${fmt(actual)}`;
+  if (actual.type === ObjType.Pair && expected.type === ObjType.Pair) {
+    let a: Obj = actual;
+    let b: Obj = expected;
+    let index = 0;
+    while (a.type === ObjType.Pair && b.type === ObjType.Pair && equal(a.car, b.car)) {
+      a = a.cdr;
+      b = b.cdr;
+      index++;
+    }
+    output += `\n  first difference at index ${index}`;
+  }
+  return output;
+}
+
+export type TestOptions = {
+  // only run tests with names containing this
+  filter?: string;
+};
+
+// runTests loads each file once into its own env on top of base, then
+// runs the tests it registered, each in a new env under the one its
+// deftest was in, and prints a summary. returns whether everything passed
+function runTests(base: ObjEnv, files: string[], options: TestOptions = {}): boolean {
+  const failures: { name: string, file: string, err: ElyspError }[] = [];
+  const run: TestRun = { tests: [], assertions: 0 };
+  testRuns.set(base, run);
+  let passed = 0;
+
+  for (const file of files) {
+    puts(`${file}\n`);
+    run.tests = [];
+    const fileEnv = makeEnv(base);
+    addVariable(fileEnv, intern('*file*'), makeString(resolvePath(null, file)));
+    try {
+      evaluateSource(fileEnv, Deno.readTextFileSync(file), file);
+    } catch (e) {
+      puts(`  ${red('could not load file')}\n`);
+      failures.push({ name: '<load>', file, err: withLoc(e) });
+      continue;
+    }
+
+    const tests = run.tests.filter((test) => !options.filter || test.name.includes(options.filter));
+    for (const test of tests) {
+      puts(`  ${test.name}...`);
+      try {
+        evaluateBody(makeEnv(test.env), test.body);
+        passed++;
+        puts('ok\n');
+      } catch (e) {
+        failures.push({ name: test.name, file, err: withLoc(e) });
+        puts(`${red('FAILED')}\n`);
+      }
+    }
+  }
+
+  for (const failure of failures) {
+    puts(`\n${failure.name} (${failure.file})\n`);
+    puts(formatError(failure.err));
+  }
+
+  testRuns.delete(base);
+  const failed = failures.length;
+  puts(`\n${passed} passed, ${failed} failed, ${run.assertions} assertions\n`);
+  return failed === 0;
+}
+
+export type PreludeOptions = {
+  // load the standard prelude from core.ts, defaults to true
+  standard?: boolean;
+  // more prelude files, loaded in order after the standard one
+  files?: string[];
+};
+
+// createBaseEnv creates the env holding the primitives and prelude,
+// everything else is evaluated in envs on top of it
+function createBaseEnv(options: PreludeOptions): ObjEnv {
+  const env = makeEnv(nil);
+  addVariable(env, intern('nil'), nil);
+  addVariable(env, trueSym, trueSym);
+
+  const primitives: Record<string, ElyspFn> = {
+    'fn': primFn,
+    'define': primDefine,
+    'set!': primSet,
+    'defn': primDefn,
     'defmacro': primDefmacro,
+    'defsyntax': primDefsyntax,
+    'gensym': primGensym,
     'quote': primQuote,
+    'quasiquote': primQuasiquote,
     'unquote': primUnquote,
+    'unquote-splicing': primUnquote,
     'list': primList,
     'cons': primCons,
     'env': (env) => env,
     'macex': primMacex,
+    'macroexpand-1': primMacex,
+    'macroexpand-all': primMacroexpandAll,
+    'macro/trace': primMacroTrace,
     'import': primImport,
+    'export': primExport,
     'if': primIf,
+    'not': primNot,
+    'and': primAnd,
+    'or': primOr,
+    'when': primWhen,
+    'unless': primUnless,
+    'cond': primCond,
+    'case': primCase,
+    'let': primLet,
+    'let*': primLetStar,
+    'letrec': primLetrec,
+    'while': primWhile,
+    'dotimes': primDotimes,
+    'dolist': primDolist,
+    'break': primBreak,
+    'continue': primContinue,
     'error': primError,
+    'try': primTry,
+    'error-message': primErrorMessage,
+    'error-data': primErrorData,
+    'deftest': primDeftest,
+    'is': primIs,
     'string': primString,
     'slurp': primSlurp,
     'print': primPrint,
     'println': primPrintln,
+    'display': primPrint,
+    'write': primWrite,
+    'pprint': primPprint,
     'reader/debug': primReaderDebug,
+    'reader-macro': primReaderMacro,
     '=': primEqual,
-    '+': createNumericPrim((a, b) => a + b),
-    '-': createNumericPrim((a, b) => a - b),
-    '*': createNumericPrim((a, b) => a * b),
-    '/': createNumericPrim((a, b) => a / b),
+    '+': createNumericPrim(addOp, 0),
+    '-': createNumericPrim(subtractOp, 0, 1),
+    '*': createNumericPrim(multiplyOp, 1),
+    '/': createNumericPrim(divideOp, 1, 1),
+    '<': createComparisonPrim((order) => order < 0),
+    '>': createComparisonPrim((order) => order > 0),
+    '<=': createComparisonPrim((order) => order <= 0),
+    '>=': createComparisonPrim((order) => order >= 0),
+    'mod': primMod,
+    'abs': primAbs,
+    'floor': primFloor,
+    'sqrt': primSqrt,
+    'min': createExtremumPrim((order) => order < 0),
+    'max': createExtremumPrim((order) => order > 0),
   };
 
   Object.entries(primitives).map(([name, value]) => {
-    addVariable(env, intern(name), makeNativeFn(value));
+    addVariable(env, intern(name), makeNativeFn(value, name));
   });
+  for (const fn of [...listPrimitives, ...collectionPrimitives, ...boxPrimitives, ...stringPrimitives]) {
+    addVariable(env, intern(fn.name), fn);
+  }
+  // no limit, see printOptions
+  addVariable(env, intern('*print-length*'), nil);
+  addVariable(env, intern('*print-depth*'), nil);
 
-  // FIXME this should def not be happening here
-  const coreSrc = Deno.readTextFileSync('core.elysp');
-  const reader = new Reader(coreSrc);
-  try {
-    while (!reader.atEof()) {
-      const next = reader.read();
-      if (next === null) {
+  if (options.standard ?? true) {
+    evaluateSource(env, core, '<prelude>');
+  }
+  for (const file of options.files ?? []) {
+    evaluateSource(env, Deno.readTextFileSync(file), file);
+  }
+
+  return env;
+}
+
+// MARSHALLING
+export type JsValue =
+  | number
+  | bigint
+  | string
+  | boolean
+  | null
+  | undefined
+  | JsValue[]
+  | { [key: string]: JsValue }
+  | ((...args: JsValue[]) => JsValue);
+
+// numbers and strings convert as you'd expect, true is t, false, null
+// and undefined are nil, arrays become lists, plain objects become maps
+// and functions become natives
+export function fromJs(value: JsValue): Obj {
+  if (typeof value === 'number') {
+    return makeNum(value);
+  }
+  if (typeof value === 'bigint') {
+    return makeBigInt(value);
+  }
+  if (typeof value === 'string') {
+    return makeString(value);
+  }
+  if (typeof value === 'boolean') {
+    return value ? trueSym : nil;
+  }
+  if (value === null || value === undefined) {
+    return nil;
+  }
+  if (typeof value === 'function') {
+    const jsFn = value;
+    return makeNativeFn((env, args) => {
+      const values: JsValue[] = [];
+      forEach(evaluateList(env, args), (arg) => values.push(toJs(arg)));
+      return fromJs(jsFn(...values));
+    }, jsFn.name || '<js function>');
+  }
+  if (Array.isArray(value)) {
+    let list: Obj = nil;
+    for (let i = value.length - 1; i >= 0; i--) {
+      list = cons(fromJs(value[i]), list);
+    }
+    return list;
+  }
+  const map = makeMap();
+  for (const [key, item] of Object.entries(value)) {
+    mapSet(map, makeString(key), fromJs(item));
+  }
+  return map;
+}
+
+// the reverse of fromJs, nil becomes null and fns become JS functions.
+// path holds the lists, vectors and maps being converted that obj is in,
+// so one that contains itself is an error rather than looping forever
+export function toJs(obj: Obj, path = new Set<Obj>()): JsValue {
+  switch (obj.type) {
+    case ObjType.Num:
+    case ObjType.BigInt:
+    case ObjType.String:
+    case ObjType.Char: {
+      return obj.value;
+    }
+    case ObjType.Ratio: {
+      return toFloat(obj);
+    }
+    case ObjType.Nil: {
+      return null;
+    }
+    case ObjType.Symbol: {
+      if (obj === trueSym) {
+        return true;
+      }
+      break;
+    }
+    case ObjType.Pair: {
+      const values: JsValue[] = [];
+      const pairs: Obj[] = [];
+      let item: Obj = obj;
+      while (item.type === ObjType.Pair && !path.has(item)) {
+        path.add(item);
+        pairs.push(item);
+        values.push(toJs(item.car, path));
+        item = item.cdr;
+      }
+      pairs.forEach((pair) => path.delete(pair));
+      if (item !== nil) {
+        // dotted and cyclic lists have no JS equivalent
         break;
       }
-      evaluate(env, next);
+      return values;
+    }
+    case ObjType.Vector: {
+      if (path.has(obj)) {
+        break;
+      }
+      path.add(obj);
+      const items = obj.items.map((item) => toJs(item, path));
+      path.delete(obj);
+      return items;
+    }
+    case ObjType.Map: {
+      if (path.has(obj)) {
+        break;
+      }
+      path.add(obj);
+      const result: { [key: string]: JsValue } = {};
+      for (const [key, value] of obj.entries.values()) {
+        result[key.type === ObjType.String ? key.value : fmt(key)] = toJs(value, path);
+      }
+      path.delete(obj);
+      return result;
+    }
+    case ObjType.Fn:
+    case ObjType.NativeFn: {
+      const fn = obj;
+      return (...args: JsValue[]) => toJs(applyValues(fn, fromJs(args)));
     }
-  } catch (e) {
-    throw e;
   }
+  throw new ElyspError(`cannot convert ${fmt(obj)} to a JS value`);
+}
 
-  return env;
+const quoteFn = makeNativeFn(primQuote, 'quote');
+
+// applyValues calls fn with already evaluated arguments
+export function applyValues(fn: Obj, values: Obj): Obj {
+  if (fn.type === ObjType.Fn) {
+    return applyFn(fn, values);
+  }
+  // everything else evaluates its arguments, so quote them to get the
+  // values through unchanged. quote is referenced directly so this
+  // works without an env to look it up in
+  const quoted: Obj[] = [];
+  forEach(values, (value) => quoted.push(cons(quoteFn, cons(value, nil))));
+  let args: Obj = nil;
+  for (let i = quoted.length - 1; i >= 0; i--) {
+    args = cons(quoted[i], args);
+  }
+  return apply(makeEnv(nil), fn, args);
 }
 
-function readerDebugEnabled(env: ObjEnv): boolean {
-  return find(env, intern('reader-debug')) === trueSym;
+// a parameter type for makeTypedNativeFn, suffix with ? to make it
+// optional or prefix the last one with ... to collect the rest.
+// obj passes the argument through without converting it
+export type ParamType = 'number' | 'string' | 'char' | 'boolean' | 'list' | 'map' | 'fn' | 'any' | 'obj';
+
+const paramTypeChecks: Record<ParamType, (obj: Obj) => boolean> = {
+  number: (obj) => isNumber(obj),
+  string: (obj) => obj.type === ObjType.String,
+  char: (obj) => obj.type === ObjType.Char,
+  boolean: () => true,
+  list: (obj) => isList(obj),
+  map: (obj) => obj.type === ObjType.Map,
+  fn: (obj) => obj.type === ObjType.Fn || obj.type === ObjType.NativeFn,
+  any: () => true,
+  obj: () => true,
+};
+
+// makeTypedNativeFn wraps a JS function as a native, checking the arity
+// and argument types against params and converting the arguments and
+// result, e.g.
+//
+// makeTypedNativeFn('repeat', ['string', 'number?'], (s: string, n = 2) => s.repeat(n))
+//
+// fn's parameters are typed by the caller to match params, never[] lets
+// a fn with any parameter types through
+export type TypedFn = (...args: never[]) => JsValue | Obj;
+
+export function makeTypedNativeFn(name: string, params: string[], fn: TypedFn): ObjNativeFn {
+  const parsed = params.map((param) => {
+    const type = param.replace(/^\.\.\./, '').replace(/\?$/, '') as ParamType;
+    if (!(type in paramTypeChecks)) {
+      throw new ElyspError(`${name}: unknown parameter type ${type}`);
+    }
+    return { type, rest: param.startsWith('...'), optional: param.endsWith('?') };
+  });
+  const hasRest = parsed.length > 0 && parsed[parsed.length - 1].rest;
+  const min = parsed.filter((param) => !param.rest && !param.optional).length;
+  const max = hasRest ? -1 : parsed.length;
+
+  const convert = (type: ParamType, obj: Obj, index: number): unknown => {
+    if (!paramTypeChecks[type](obj)) {
+      throw new ElyspError(`${name}: expected ${type} for argument ${index + 1} but got ${obj.type}`);
+    }
+    if (type === 'obj') {
+      return obj;
+    }
+    if (type === 'boolean') {
+      return obj !== nil;
+    }
+    if (type === 'number') {
+      return toFloat(obj as ObjNumber);
+    }
+    return toJs(obj);
+  };
+
+  return makeNativeFn((env, args) => {
+    checkArity(args, min, max);
+    const values: unknown[] = [];
+    const rest: unknown[] = [];
+    forEach(evaluateList(env, args), (arg, index) => {
+      const param = parsed[Math.min(index, parsed.length - 1)];
+      if (param.rest) {
+        rest.push(convert(param.type, arg, index));
+      } else {
+        values.push(convert(param.type, arg, index));
+      }
+    });
+    if (hasRest) {
+      values.push(rest);
+    }
+
+    const result = (fn as (...args: unknown[]) => JsValue | Obj)(...values);
+    return isObj(result) ? result : fromJs(result as JsValue);
+  }, name);
 }
 
-const env = createDefaultEnv();
+// what the fields of each type of obj hold, so a plain JS object with a
+// type field isn't mistaken for an obj
+const isObjField = (value: unknown) => typeof value === 'object' && value !== null;
+const objShapes: Record<ObjType, (obj: Record<string, unknown>) => boolean> = {
+  [ObjType.Pair]: (obj) => isObjField(obj.car) && isObjField(obj.cdr),
+  [ObjType.Symbol]: (obj) => typeof obj.name === 'string',
+  [ObjType.Keyword]: (obj) => typeof obj.name === 'string' && keywords.get(obj.name) === obj,
+  [ObjType.Nil]: (obj) => obj === nil,
+  [ObjType.Env]: (obj) => obj.vars instanceof Map && isObjField(obj.up),
+  [ObjType.Num]: (obj) => typeof obj.value === 'number',
+  [ObjType.BigInt]: (obj) => typeof obj.value === 'bigint',
+  [ObjType.Ratio]: (obj) => typeof obj.num === 'bigint' && typeof obj.den === 'bigint',
+  [ObjType.NativeFn]: (obj) => typeof obj.fn === 'function' && typeof obj.name === 'string',
+  [ObjType.Fn]: (obj) => isObjField(obj.env) && isObjField(obj.params) && isObjField(obj.body),
+  [ObjType.Macro]: (obj) => isObjField(obj.env) && isObjField(obj.params) && isObjField(obj.body),
+  [ObjType.String]: (obj) => typeof obj.value === 'string',
+  [ObjType.Char]: (obj) => typeof obj.value === 'string',
+  [ObjType.Error]: (obj) => typeof obj.message === 'string' && isObjField(obj.data),
+  [ObjType.Map]: (obj) => obj.entries instanceof Map,
+  [ObjType.Vector]: (obj) => Array.isArray(obj.items),
+  [ObjType.Box]: (obj) => isObjField(obj.value),
+};
 
-if (Deno.args.length) {
-  // file
-  const src = await Deno.readTextFile(Deno.args[0]);
-  const reader = new Reader(src);
-  try {
-    while (!reader.atEof()) {
-      const next = reader.read();
-      if (next === null) {
-        break;
+function isObj(value: unknown): value is Obj {
+  if (!isObjField(value) || Array.isArray(value)) {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return Object.hasOwn(objShapes, obj.type as string) && objShapes[obj.type as ObjType](obj);
+}
+
+// LISTS
+// the items of list for the list primitives. a dotted list like
+// (1 2 . 3) or a cyclic one isn't a list to them, so both are errors
+// rather than being read past the end or forever
+function listItems(name: string, list: Obj, index = 1): Obj[] {
+  if (!isList(list)) {
+    throw new ElyspError(`${name}: expected list for argument ${index} but got ${list.type}`);
+  }
+  const items: Obj[] = [];
+  let obj = list;
+  // slow moves one pair for every two of obj, so they meet on a cycle
+  let slow = list;
+  while (obj.type === ObjType.Pair) {
+    items.push(obj.car);
+    obj = obj.cdr;
+    if (items.length % 2 === 0) {
+      slow = (slow as ObjPair).cdr;
+      if (obj === slow) {
+        throw new ElyspError(`${name}: expected list for argument ${index} but got a cyclic list`);
+      }
+    }
+  }
+  if (obj !== nil) {
+    throw new ElyspError(`${name}: expected list for argument ${index} but got a dotted list`);
+  }
+  return items;
+}
+
+// like listItems but only looks at the first pair, for car and cdr
+function checkList(name: string, list: Obj): ObjPair | ObjNil {
+  if (list.type !== ObjType.Pair && list !== nil) {
+    throw new ElyspError(`${name}: expected list for argument 1 but got ${list.type}`);
+  }
+  return list as ObjPair | ObjNil;
+}
+
+function checkPair(name: string, pair: Obj): ObjPair {
+  if (pair.type !== ObjType.Pair) {
+    throw new ElyspError(`${name}: expected pair for argument 1 but got ${pair.type}`);
+  }
+  return pair;
+}
+
+function checkFn(name: string, fn: Obj): Obj {
+  if (fn.type !== ObjType.Fn && fn.type !== ObjType.NativeFn) {
+    throw new ElyspError(`${name}: expected fn for argument 1 but got ${fn.type}`);
+  }
+  return fn;
+}
+
+// the order sort puts a and b in without a less-than fn
+function compareObjs(a: Obj, b: Obj): number {
+  if (isNumber(a) && isNumber(b)) {
+    return compareNumbers(a, b);
+  }
+  if ((a.type === ObjType.String && b.type === ObjType.String) || (a.type === ObjType.Char && b.type === ObjType.Char)) {
+    return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+  }
+  throw new ElyspError(`sort: cannot compare ${fmt(a)} and ${fmt(b)}`);
+}
+
+const listPrimitives = [
+  makeTypedNativeFn('car', ['obj'], (list: Obj) => {
+    const pair = checkList('car', list);
+    return pair.type === ObjType.Pair ? pair.car : nil;
+  }),
+  makeTypedNativeFn('cdr', ['obj'], (list: Obj) => {
+    const pair = checkList('cdr', list);
+    return pair.type === ObjType.Pair ? pair.cdr : nil;
+  }),
+  makeTypedNativeFn('set-car!', ['obj', 'obj'], (pair: Obj, value: Obj) => {
+    checkPair('set-car!', pair).car = value;
+    return value;
+  }),
+  makeTypedNativeFn('set-cdr!', ['obj', 'obj'], (pair: Obj, value: Obj) => {
+    checkPair('set-cdr!', pair).cdr = value;
+    return value;
+  }),
+  makeTypedNativeFn('length', ['obj'], (list: Obj) => listItems('length', list).length),
+  // the item at index, or nil past the end
+  makeTypedNativeFn('nth', ['obj', 'number'], (list: Obj, index: number) => listItems('nth', list)[index] ?? nil),
+  makeTypedNativeFn('reverse', ['obj'], (list: Obj) => arrayToList(listItems('reverse', list).reverse())),
+  // (append a b ... last) copies all but last, which becomes the tail
+  // of the result as it is, so it can be any value
+  makeTypedNativeFn('append', ['...obj'], (lists: Obj[]) => {
+    let result = lists.length > 0 ? lists[lists.length - 1] : nil;
+    for (let i = lists.length - 2; i >= 0; i--) {
+      const items = listItems('append', lists[i], i + 1);
+      for (let j = items.length - 1; j >= 0; j--) {
+        result = cons(items[j], result);
       }
-      if (readerDebugEnabled(env)) {
-        puts('reader: ')
-        reprln(next);
+    }
+    return result;
+  }),
+  // (range end), (range start end) or (range start end step), counting
+  // up to but not including end
+  makeTypedNativeFn('range', ['obj', 'obj?', 'obj?'], (...args: Obj[]) => {
+    args.forEach((arg, i) => {
+      if (!isNumber(arg)) {
+        throw new ElyspError(`range: expected ${ObjType.Num} for argument ${i + 1} but got ${arg.type}`);
       }
-      evaluate(env, next);
+    });
+    const [start, end, step] = (args.length === 1 ? [makeNum(0), args[0], makeNum(1)] : [args[0], args[1], args[2] ?? makeNum(1)]) as ObjNumber[];
+    const direction = compareNumbers(step, makeNum(0));
+    if (direction === 0) {
+      throw new ElyspError('range: step cannot be 0');
     }
-  } catch (e) {
-    console.log(e);
+    const items: Obj[] = [];
+    for (let n = start; compareNumbers(n, end) * direction < 0; n = numericOp(n, step, addOp)) {
+      items.push(n);
+    }
+    return arrayToList(items);
+  }),
+  // (apply fn a b ... list) calls fn with a, b etc. and then the items
+  // of list as its arguments
+  makeTypedNativeFn('apply', ['obj', '...obj'], (fn: Obj, args: Obj[]) => {
+    if (args.length === 0) {
+      throw new ElyspError('apply: expected a list of arguments');
+    }
+    const items = listItems('apply', args[args.length - 1], args.length + 1);
+    return applyValues(checkFn('apply', fn), arrayToList([...args.slice(0, -1), ...items]));
+  }),
+  // (map fn list...) calls fn with the first item of each list, then the
+  // second and so on, stopping at the end of the shortest
+  makeTypedNativeFn('map', ['obj', 'obj', '...obj'], (fn: Obj, list: Obj, lists: Obj[]) => {
+    checkFn('map', fn);
+    const items = [list, ...lists].map((list, i) => listItems('map', list, i + 2));
+    const length = Math.min(...items.map((list) => list.length));
+    const results: Obj[] = [];
+    for (let i = 0; i < length; i++) {
+      results.push(applyValues(fn, arrayToList(items.map((list) => list[i]))));
+    }
+    return arrayToList(results);
+  }),
+  makeTypedNativeFn('filter', ['obj', 'obj'], (fn: Obj, list: Obj) => {
+    checkFn('filter', fn);
+    return arrayToList(listItems('filter', list, 2).filter((item) => isTruthy(applyValues(fn, cons(item, nil)))));
+  }),
+  makeTypedNativeFn('for-each', ['obj', 'obj'], (fn: Obj, list: Obj) => {
+    checkFn('for-each', fn);
+    for (const item of listItems('for-each', list, 2)) {
+      applyValues(fn, cons(item, nil));
+    }
+    return nil;
+  }),
+  // the first item fn is true for, or nil
+  makeTypedNativeFn('find', ['obj', 'obj'], (fn: Obj, list: Obj) => {
+    checkFn('find', fn);
+    return listItems('find', list, 2).find((item) => isTruthy(applyValues(fn, cons(item, nil)))) ?? nil;
+  }),
+  // (alist-find key alist) is the first pair in alist whose car is key
+  makeTypedNativeFn('alist-find', ['obj', 'obj'], (key: Obj, alist: Obj) => {
+    return listItems('alist-find', alist, 2).find((pair) => pair.type === ObjType.Pair && equal(pair.car, key)) ?? nil;
+  }),
+  // t if fn is true for any item, unlike find this works for nil items
+  makeTypedNativeFn('any', ['obj', 'obj'], (fn: Obj, list: Obj) => {
+    checkFn('any', fn);
+    return listItems('any', list, 2).some((item) => isTruthy(applyValues(fn, cons(item, nil)))) ? trueSym : nil;
+  }),
+  makeTypedNativeFn('every', ['obj', 'obj'], (fn: Obj, list: Obj) => {
+    checkFn('every', fn);
+    return listItems('every', list, 2).every((item) => isTruthy(applyValues(fn, cons(item, nil)))) ? trueSym : nil;
+  }),
+  // (reduce fn init list) folds list from the left starting at init,
+  // (reduce fn list) starts at the first item
+  makeTypedNativeFn('reduce', ['obj', 'obj', 'obj?'], (fn: Obj, init: Obj, list?: Obj) => {
+    checkFn('reduce', fn);
+    const items = list === undefined ? listItems('reduce', init, 2) : listItems('reduce', list, 3);
+    let acc = list === undefined ? items.shift() : init;
+    if (acc === undefined) {
+      throw new ElyspError('reduce: empty list and no initial value');
+    }
+    for (const item of items) {
+      acc = applyValues(fn, cons(acc, cons(item, nil)));
+    }
+    return acc;
+  }),
+  // (sort list) sorts numbers, strings or characters ascending, (sort
+  // list less?) by a fn that says if its first argument goes first.
+  // the sort is stable and list isn't changed
+  makeTypedNativeFn('sort', ['obj', 'obj?'], (list: Obj, less?: Obj) => {
+    const items = listItems('sort', list);
+    if (less === undefined) {
+      return arrayToList(items.sort(compareObjs));
+    }
+    checkFn('sort', less);
+    const before = (a: Obj, b: Obj) => isTruthy(applyValues(less, cons(a, cons(b, nil))));
+    return arrayToList(items.sort((a, b) => before(a, b) ? -1 : before(b, a) ? 1 : 0));
+  }),
+];
+
+// VECTORS AND MAPS
+// vectors and maps are never changed in place, assoc and dissoc make
+// updated copies
+
+// the value at key in a map, or at index key in a vector, or notFound
+function collectionGet(coll: ObjVector | ObjMap, key: Obj, notFound: Obj): Obj {
+  if (coll.type === ObjType.Map) {
+    return coll.entries.get(mapKey(key))?.[1] ?? notFound;
   }
-} else {
-  // REPL
-  while (true) {
-    const line = await readLine('ely> ');
-    try {
-      const reader = new Reader(line);
-      const next = reader.read();
-      if (next === null) {
-        break;
+  if (!isNumber(key) || !Number.isInteger(toFloat(key))) {
+    throw new ElyspError(`expected an integer to index ${fmt(coll)} but got ${fmt(key)}`);
+  }
+  return coll.items[toFloat(key)] ?? notFound;
+}
+
+function checkCollection(name: string, coll: Obj): ObjVector | ObjMap {
+  if (coll.type !== ObjType.Vector && coll.type !== ObjType.Map) {
+    throw new ElyspError(`${name}: expected vector or map for argument 1 but got ${coll.type}`);
+  }
+  return coll;
+}
+
+function checkMap(name: string, map: Obj): ObjMap {
+  if (map.type !== ObjType.Map) {
+    throw new ElyspError(`${name}: expected map for argument 1 but got ${map.type}`);
+  }
+  return map;
+}
+
+const collectionPrimitives = [
+  makeTypedNativeFn('vector', ['...obj'], (items: Obj[]) => makeVector(items)),
+  makeTypedNativeFn('hash-map', ['...obj'], (items: Obj[]) => {
+    if (items.length % 2 !== 0) {
+      throw new ElyspError('hash-map: expected a value for every key');
+    }
+    const map = makeMap();
+    for (let i = 0; i < items.length; i += 2) {
+      mapSet(map, items[i], items[i + 1]);
+    }
+    return map;
+  }),
+  makeTypedNativeFn('list->vector', ['obj'], (list: Obj) => makeVector(listItems('list->vector', list))),
+  makeTypedNativeFn('vector->list', ['obj'], (vector: Obj) => {
+    if (vector.type !== ObjType.Vector) {
+      throw new ElyspError(`vector->list: expected vector for argument 1 but got ${vector.type}`);
+    }
+    return arrayToList(vector.items);
+  }),
+  // (get coll key) is the value at key in a map or index in a vector or
+  // list, (get coll key not-found) gives not-found instead of nil
+  makeTypedNativeFn('get', ['obj', 'obj', 'obj?'], (coll: Obj, key: Obj, notFound: Obj = nil) => {
+    if (coll === nil) {
+      return notFound;
+    }
+    if (coll.type === ObjType.Pair) {
+      return collectionGet(makeVector(listItems('get', coll)), key, notFound);
+    }
+    return collectionGet(checkCollection('get', coll), key, notFound);
+  }),
+  // true if a map has key, or a vector has the index key
+  makeTypedNativeFn('contains?', ['obj', 'obj'], (obj: Obj, key: Obj) => {
+    const coll = checkCollection('contains?', obj);
+    if (coll.type === ObjType.Map) {
+      return coll.entries.has(mapKey(key));
+    }
+    return isNumber(key) && Object.hasOwn(coll.items, toFloat(key));
+  }),
+  // (assoc coll key value...) is a copy of a map or vector with each key
+  // set to value, a vector can be added to by setting the index after
+  // its end. see alist-find for alists
+  makeTypedNativeFn('assoc', ['obj', '...obj'], (obj: Obj, rest: Obj[]) => {
+    const coll = checkCollection('assoc', obj);
+    if (rest.length % 2 !== 0) {
+      throw new ElyspError('assoc: expected a value for every key');
+    }
+    if (coll.type === ObjType.Map) {
+      const map = makeMap(new Map(coll.entries));
+      for (let i = 0; i < rest.length; i += 2) {
+        mapSet(map, rest[i], rest[i + 1]);
+      }
+      return map;
+    }
+    const items = [...coll.items];
+    for (let i = 0; i < rest.length; i += 2) {
+      const index = rest[i];
+      if (!isNumber(index) || !Number.isInteger(toFloat(index)) || toFloat(index) < 0 || toFloat(index) > items.length) {
+        throw new ElyspError(`assoc: index ${fmt(index)} is out of range for a vector of length ${items.length}`);
       }
-      if (readerDebugEnabled(env)) {
-        puts('reader: ')
-        reprln(next);
+      items[toFloat(index)] = rest[i + 1];
+    }
+    return makeVector(items);
+  }),
+  makeTypedNativeFn('dissoc', ['obj', '...obj'], (map: Obj, keys: Obj[]) => {
+    const result = makeMap(new Map(checkMap('dissoc', map).entries));
+    for (const key of keys) {
+      result.entries.delete(mapKey(key));
+    }
+    return result;
+  }),
+  // keys and values come out in the order they were first added
+  makeTypedNativeFn('keys', ['obj'], (map: Obj) => arrayToList([...checkMap('keys', map).entries.values()].map(([key]) => key))),
+  makeTypedNativeFn('vals', ['obj'], (map: Obj) => arrayToList([...checkMap('vals', map).entries.values()].map(([, value]) => value))),
+  // the number of entries in a map, or items in a vector, list or string
+  makeTypedNativeFn('count', ['obj'], (coll: Obj) => {
+    switch (coll.type) {
+      case ObjType.Map:
+        return coll.entries.size;
+      case ObjType.Vector:
+        return coll.items.length;
+      case ObjType.String:
+        return codePoints(coll.value).length;
+      default:
+        return listItems('count', coll).length;
+    }
+  }),
+];
+
+// BOXES
+// a box holds one value that can be changed, so closures can share it
+function checkBox(name: string, box: Obj): ObjBox {
+  if (box.type !== ObjType.Box) {
+    throw new ElyspError(`${name}: expected box for argument 1 but got ${box.type}`);
+  }
+  return box;
+}
+
+const boxPrimitives = [
+  makeTypedNativeFn('box', ['obj'], (value: Obj) => makeBox(value)),
+  makeTypedNativeFn('unbox', ['obj'], (box: Obj) => checkBox('unbox', box).value),
+  makeTypedNativeFn('set-box!', ['obj', 'obj'], (box: Obj, value: Obj) => {
+    checkBox('set-box!', box).value = value;
+    return value;
+  }),
+];
+
+// STRINGS
+// strings are indexed by unicode code point rather than UTF-16 code unit
+const codePoints = (s: string) => Array.from(s);
+
+const stringPrimitives = [
+  makeTypedNativeFn('char->integer', ['char'], (c: string) => c.codePointAt(0)!),
+  makeTypedNativeFn('integer->char', ['number'], (code: number) => {
+    if (!Number.isInteger(code) || code < 0 || code > 0x10ffff) {
+      throw new ElyspError(`integer->char: ${code} is not a character code`);
+    }
+    return makeChar(String.fromCodePoint(code));
+  }),
+  makeTypedNativeFn('string-length', ['string'], (s: string) => codePoints(s).length),
+  makeTypedNativeFn('substring', ['string', 'number', 'number?'], (s: string, start: number, end?: number) => {
+    return codePoints(s).slice(start, end).join('');
+  }),
+  // the index of the first search in s at or after from, or nil
+  makeTypedNativeFn('string-index-of', ['string', 'string', 'number?'], (s: string, search: string, from = 0) => {
+    const chars = codePoints(s);
+    const target = codePoints(search);
+    for (let i = Math.max(from, 0); i + target.length <= chars.length; i++) {
+      if (target.every((c, j) => chars[i + j] === c)) {
+        return i;
+      }
+    }
+    return null;
+  }),
+  makeTypedNativeFn('string-split', ['string', 'string'], (s: string, separator: string) => separator === '' ? codePoints(s) : s.split(separator)),
+  makeTypedNativeFn('string-join', ['obj', 'string?'], (items: Obj, separator = '') => {
+    if (!isList(items)) {
+      throw new ElyspError(`string-join: expected list for argument 1 but got ${items.type}`);
+    }
+    const strings: string[] = [];
+    forEach(items, (item) => strings.push(display(item)));
+    return strings.join(separator);
+  }),
+  makeTypedNativeFn('string-upcase', ['string'], (s: string) => s.toUpperCase()),
+  makeTypedNativeFn('string-downcase', ['string'], (s: string) => s.toLowerCase()),
+  makeTypedNativeFn('string-trim', ['string'], (s: string) => s.trim()),
+  makeTypedNativeFn('string-replace', ['string', 'string', 'string'], (s: string, from: string, to: string) => {
+    return s.replaceAll(from, to);
+  }),
+  // the first match of the regex pattern in s, as a list of the whole
+  // match and then each group, or nil if there isn't one
+  makeTypedNativeFn('string-match', ['string', 'string'], (s: string, pattern: string) => {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, 'u');
+    } catch (e) {
+      throw new ElyspError(`string-match: invalid regex ${escapeString(pattern)}: ${(e as Error).message}`);
+    }
+    const match = regex.exec(s);
+    return match ? Array.from(match, (group) => group ?? null) : null;
+  }),
+  // the first value written in s, the reverse of write
+  makeTypedNativeFn('read-string', ['string'], (s: string) => new Reader(s, '<string>').read() ?? nil),
+  // parses s the way the reader would, nil if it isn't a number
+  makeTypedNativeFn('string->number', ['string'], (s: string) => {
+    const reader = new Reader(s.trim());
+    try {
+      const value = reader.readNext();
+      return value !== null && isNumber(value) && reader.atEof() ? value : null;
+    } catch {
+      return null;
+    }
+  }),
+  makeTypedNativeFn('number->string', ['obj', 'number?'], (n: Obj, radix?: number) => {
+    if (!isNumber(n)) {
+      throw new ElyspError(`number->string: expected ${ObjType.Num} for argument 1 but got ${n.type}`);
+    }
+    if (radix === undefined) {
+      return formatNumber(n);
+    }
+    switch (n.type) {
+      case ObjType.Num:
+        return n.value.toString(radix);
+      case ObjType.BigInt:
+        return n.value.toString(radix);
+      case ObjType.Ratio:
+        return `${n.num.toString(radix)}/${n.den.toString(radix)}`;
+    }
+  }),
+];
+
+// INTERPRETER
+// Interpreter is the API for embedding elysp, e.g.
+//
+// const elysp = new Interpreter();
+// elysp.defineNative('greet', (env, args) => makeString(`hi ${display(evalArg(env, args, 0))}`));
+// elysp.evalString('(greet "there")'); // => "hi there"
+export class Interpreter {
+  // primitives and the prelude, shared by any modules this imports
+  readonly base: ObjEnv;
+  // where evalString and evalFile evaluate code
+  readonly env: ObjEnv;
+
+  constructor(options: PreludeOptions = {}) {
+    this.base = createBaseEnv(options);
+    this.env = makeEnv(this.base);
+  }
+
+  evalString(source: string, file = '<eval>'): Obj {
+    return evaluateSource(this.env, source, file);
+  }
+
+  // evaluates the file at path, imports in it are resolved relative to it
+  evalFile(path: string): Obj {
+    const file = resolvePath(null, path);
+    setVariable(this.env, intern('*file*'), makeString(file));
+    return evaluateSource(this.env, Deno.readTextFileSync(file), path);
+  }
+
+  define(name: string, value: Obj) {
+    addVariable(this.env, intern(name), value);
+  }
+
+  defineNative(name: string, fn: ElyspFn) {
+    addVariable(this.env, intern(name), makeNativeFn(fn, name));
+  }
+
+  // defines a native from a JS function, see makeTypedNativeFn
+  defineFunction(name: string, params: string[], fn: TypedFn) {
+    addVariable(this.env, intern(name), makeTypedNativeFn(name, params, fn));
+  }
+
+  // looks up name, returning null if it isn't defined
+  get(name: string): Obj | null {
+    return find(this.env, intern(name));
+  }
+
+  runTests(files: string[], options: TestOptions = {}): boolean {
+    return runTests(this.base, files, options);
+  }
+
+  // see fromJs and toJs
+  static fromJs(value: JsValue): Obj {
+    return fromJs(value);
+  }
+
+  static toJs(obj: Obj): JsValue {
+    return toJs(obj);
+  }
+}
+
+function readerDebugEnabled(env: ObjEnv): boolean {
+  return find(env, intern('reader-debug')) === trueSym;
+}
+
+// elysp [--no-prelude] [--prelude file]... [file]
+// elysp test [--filter name] files...
+export async function main(argv: string[]) {
+  const args: string[] = [];
+  const prelude: PreludeOptions = { files: [] };
+  const testOptions: TestOptions = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--no-prelude') {
+      prelude.standard = false;
+    } else if (arg === '--prelude') {
+      prelude.files?.push(argv[++i]);
+    } else if (arg === '--filter') {
+      testOptions.filter = argv[++i];
+    } else {
+      args.push(arg);
+    }
+  }
+
+  const interpreter = new Interpreter(prelude);
+  const env = interpreter.env;
+
+  if (args[0] === 'test') {
+    Deno.exit(interpreter.runTests(args.slice(1), testOptions) ? 0 : 1);
+  } else if (args.length) {
+    // file
+    const src = await Deno.readTextFile(args[0]);
+    const reader = new Reader(src, args[0], env);
+    addVariable(env, intern('*file*'), makeString(resolvePath(null, args[0])));
+    try {
+      while (!reader.atEof()) {
+        const next = reader.read();
+        if (next === null) {
+          break;
+        }
+        if (readerDebugEnabled(env)) {
+          puts('reader: ')
+          reprln(next);
+        }
+        evaluate(env, next);
       }
-      repr(evaluate(env, next));
-      puts('\n');
     } catch (e) {
-      console.log(e.toString());
+      reportError(e);
+    }
+  } else {
+    // REPL
+    while (true) {
+      const line = await readLine('ely> ');
+      try {
+        const reader = new Reader(line, '<repl>', env);
+        const next = reader.read();
+        if (next === null) {
+          break;
+        }
+        if (readerDebugEnabled(env)) {
+          puts('reader: ')
+          reprln(next);
+        }
+        reprln(evaluate(env, next), printOptions(env));
+      } catch (e) {
+        reportError(e);
+      }
     }
   }
-}
\ No newline at end of file
+}
+
+if (import.meta.main) {
+  await main(Deno.args);
+}
@@ -1,2 +1,2 @@
 #!/bin/sh
-deno run -A elysp.ts tests.elysp
+deno run -A elysp.ts test tests.elysp $* && deno test -A --no-check tests/
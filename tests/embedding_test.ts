@@ -0,0 +1,110 @@
+// run with deno test -A --no-check tests/
+import { deepStrictEqual, strictEqual, throws } from 'node:assert';
+import { applyValues, cons, ElyspError, evalArg, fmt, fromJs, Interpreter, makeNum, makeString, nil, toJs } from '../elysp.ts';
+
+Deno.test('evalString gives the value of the last form', () => {
+  const elysp = new Interpreter();
+  strictEqual(fmt(elysp.evalString('(define x 2) (+ x 1)')), '3');
+});
+
+Deno.test('define and get share the interpreter env', () => {
+  const elysp = new Interpreter();
+  elysp.define('answer', makeNum(42));
+  strictEqual(fmt(elysp.evalString('answer')), '42');
+  elysp.evalString('(define greeting "hi")');
+  strictEqual(fmt(elysp.get('greeting') ?? nil), '"hi"');
+  strictEqual(elysp.get('undefined-thing'), null);
+});
+
+Deno.test('interpreters are separate', () => {
+  const a = new Interpreter();
+  const b = new Interpreter();
+  a.evalString('(define only-in-a 1)');
+  strictEqual(b.get('only-in-a'), null);
+  a.evalString('(reader-macro #\\{ (fn (items) (cons \'list items)))');
+  strictEqual(fmt(a.evalString('#{1 2}')), '(1 2)');
+  throws(() => b.evalString('#{1 2}'), { message: 'unknown reader syntax #{' });
+});
+
+Deno.test('defineNative gets the unevaluated arguments', () => {
+  const elysp = new Interpreter();
+  elysp.defineNative('twice', (env, args) => {
+    const value = evalArg(env, args, 0);
+    return cons(value, cons(value, nil));
+  });
+  strictEqual(fmt(elysp.evalString('(twice (+ 1 2))')), '(3 3)');
+});
+
+Deno.test('defineFunction converts arguments and results', () => {
+  const elysp = new Interpreter();
+  elysp.defineFunction('repeat', ['string', 'number?'], (s: string, n = 2) => s.repeat(n));
+  elysp.defineFunction('sum', ['...number'], (ns: number[]) => ns.reduce((a, b) => a + b, 0));
+  elysp.defineFunction('pairs', ['map'], (m: Record<string, number>) => Object.entries(m));
+  strictEqual(fmt(elysp.evalString('(repeat "ab")')), '"abab"');
+  strictEqual(fmt(elysp.evalString('(repeat "ab" 3)')), '"ababab"');
+  strictEqual(fmt(elysp.evalString('(sum 1 2 3)')), '6');
+  strictEqual(fmt(elysp.evalString('(pairs {"a" 1})')), '(("a" 1))');
+});
+
+Deno.test('defineFunction checks arity and types', () => {
+  const elysp = new Interpreter();
+  elysp.defineFunction('repeat', ['string', 'number?'], (s: string, n = 2) => s.repeat(n));
+  throws(() => elysp.evalString('(repeat)'), { message: 'arity mismatch: expected 1 to 2 arguments but got 0' });
+  throws(() => elysp.evalString('(repeat 1)'), { message: 'repeat: expected string for argument 1 but got num' });
+});
+
+Deno.test('objs returned from natives are kept, other objects are converted', () => {
+  const elysp = new Interpreter();
+  elysp.defineFunction('obj', [], () => makeString('kept'));
+  elysp.defineFunction('lookalike', [], () => ({ type: 'string' }));
+  strictEqual(fmt(elysp.evalString('(obj)')), '"kept"');
+  strictEqual(fmt(elysp.evalString('(lookalike)')), '{"type" "string"}');
+});
+
+Deno.test('fromJs and toJs convert both ways', () => {
+  const value = { n: 1.5, big: 10n, s: 'text', yes: true, no: null, list: [1, [2, 3]] };
+  strictEqual(fmt(fromJs(value)), '{"n" 1.5 "big" 10n "s" "text" "yes" t "no" nil "list" (1 (2 3))}');
+  deepStrictEqual(toJs(fromJs(value)), { ...value, no: null });
+  strictEqual(toJs(fromJs(false)), null);
+  strictEqual(toJs(fromJs(undefined)), null);
+  strictEqual(Interpreter.toJs(Interpreter.fromJs('same')), 'same');
+});
+
+Deno.test('toJs can\'t convert values with no JS equivalent', () => {
+  const elysp = new Interpreter();
+  throws(() => toJs(elysp.evalString('\'(1 . 2)')), { message: 'cannot convert (1 . 2) to a JS value' });
+  throws(() => toJs(elysp.evalString('\'sym')), { message: 'cannot convert sym to a JS value' });
+});
+
+Deno.test('toJs rejects cycles but not shared values', () => {
+  const elysp = new Interpreter();
+  throws(() => toJs(elysp.evalString('(define p (list 1 2)) (set-cdr! (cdr p) p) p')), { message: 'cannot convert #0=(1 2 . #0#) to a JS value' });
+  throws(() => toJs(elysp.evalString('\'#0=(1 [#0#])')), { message: 'cannot convert #0=(1 [#0#]) to a JS value' });
+  deepStrictEqual(toJs(elysp.evalString('(define shared (list 1)) (list shared [shared])')), [[1], [[1]]]);
+});
+
+Deno.test('functions convert both ways', () => {
+  const elysp = new Interpreter();
+  elysp.define('js-add', fromJs((a, b) => (a as number) + (b as number)));
+  strictEqual(fmt(elysp.evalString('(js-add 1 2)')), '3');
+  const square = toJs(elysp.evalString('(fn (x) (* x x))')) as (x: number) => number;
+  strictEqual(square(4), 16);
+});
+
+Deno.test('applyValues calls fns and natives with evaluated values', () => {
+  const elysp = new Interpreter();
+  const args = cons(makeNum(1), cons(cons(makeNum(2), nil), nil));
+  strictEqual(fmt(applyValues(elysp.evalString('(fn (a b) (cons a b))'), args)), '(1 2)');
+  strictEqual(fmt(applyValues(elysp.evalString('cons'), args)), '(1 2)');
+});
+
+Deno.test('errors propagate both ways', () => {
+  const elysp = new Interpreter();
+  throws(() => elysp.evalString('(error "from elysp")'), (e) => e instanceof ElyspError && e.message === 'from elysp');
+  elysp.defineFunction('fail', [], () => {
+    throw new Error('from js');
+  });
+  strictEqual(fmt(elysp.evalString('(try (fail) (catch e (error-message e)))')), '"from js"');
+  const call = toJs(elysp.evalString('(fn () (error "inside"))')) as () => void;
+  throws(call, { message: 'inside' });
+});
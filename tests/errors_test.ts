@@ -0,0 +1,46 @@
+// run with deno test -A --no-check tests/
+import { strictEqual } from 'node:assert';
+import { colourCodes, ElyspError, formatError, Interpreter } from '../elysp.ts';
+
+// the error evaluating source throws
+function errorFrom(source: string, file: string): ElyspError {
+  try {
+    new Interpreter().evalString(source, file);
+  } catch (e) {
+    if (e instanceof ElyspError) {
+      return e;
+    }
+    throw e;
+  }
+  throw new Error(`expected ${source} to throw`);
+}
+
+Deno.test('errors know the line and column they were thrown from', () => {
+  const err = errorFrom('(defn check (x)\n  (error "bad"))\n\n(check 1)', 'check.elysp');
+  strictEqual(err.message, 'bad');
+  strictEqual(err.loc?.file, 'check.elysp');
+  strictEqual(err.loc?.line, 2);
+  strictEqual(err.loc?.col, 3);
+});
+
+Deno.test('errors are shown with the source line and a backtrace', () => {
+  const err = errorFrom('(defn check (x)\n  (error "bad"))\n\n(check 1)', 'check.elysp');
+  strictEqual(formatError(err).replace(colourCodes, ''), [
+    'error: bad',
+    ' --> check.elysp:2:3',
+    '  |',
+    '2 |   (error "bad"))',
+    '  |   ^^^^^^^^^^^^^',
+    'backtrace:',
+    '  error (native) at check.elysp:2:3',
+    '  check at check.elysp:4:1',
+    '',
+  ].join('\n'));
+});
+
+Deno.test('errors from the reader point at the bad character', () => {
+  const err = errorFrom('(list 1\n  #zz)', 'reader.elysp');
+  strictEqual(err.message, 'unknown reader syntax #z');
+  strictEqual(err.loc?.line, 2);
+  strictEqual(err.loc?.col, 3);
+});
@@ -0,0 +1,31 @@
+// run with deno test -A --no-check tests/
+import { strictEqual } from 'node:assert';
+import { fmt, Interpreter } from '../elysp.ts';
+
+const elysp = new URL('../elysp.ts', import.meta.url).pathname;
+const dir = new URL('.', import.meta.url).pathname;
+
+// what the CLI prints running args
+async function runCli(...args: string[]): Promise<string> {
+  const command = new Deno.Command(Deno.execPath(), { args: ['run', '-A', '--no-check', elysp, ...args], cwd: dir });
+  const { stdout } = await command.output();
+  return new TextDecoder().decode(stdout);
+}
+
+Deno.test('the standard prelude is loaded by default', () => {
+  strictEqual(fmt(new Interpreter().evalString("(cadr '(1 2))")), '2');
+});
+
+Deno.test('prelude options leave out the standard prelude and add files', () => {
+  const bare = new Interpreter({ standard: false, files: [`${dir}extra-prelude.elysp`] });
+  strictEqual(bare.get('cadr'), null);
+  strictEqual(fmt(bare.evalString('(double 2)')), '4');
+});
+
+Deno.test('--prelude loads files after the standard prelude', async () => {
+  strictEqual(await runCli('--prelude', 'extra-prelude.elysp', 'prelude-script.elysp'), '(4 2)');
+});
+
+Deno.test('--no-prelude leaves out the standard prelude', async () => {
+  strictEqual(await runCli('--no-prelude', '--prelude', 'extra-prelude.elysp', 'prelude-script.elysp'), '(4 "no core")');
+});
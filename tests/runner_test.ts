@@ -0,0 +1,12 @@
+// run with deno test -A --no-check tests/
+import { strictEqual } from 'node:assert';
+
+const elysp = new URL('../elysp.ts', import.meta.url).pathname;
+const dir = new URL('.', import.meta.url).pathname;
+
+Deno.test('test files are loaded once however many tests they have', async () => {
+  const command = new Deno.Command(Deno.execPath(), { args: ['run', '-A', '--no-check', elysp, 'test', 'side-effect.elysp'], cwd: dir });
+  const output = new TextDecoder().decode((await command.output()).stdout);
+  strictEqual(output.split('loaded').length - 1, 1);
+  strictEqual(output.trim().split('\n').pop(), '2 passed, 0 failed, 3 assertions');
+});